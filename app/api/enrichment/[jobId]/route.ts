@@ -0,0 +1,68 @@
+import { isValidObjectId } from "mongoose";
+import { after, type NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth/config";
+import {
+  getEnrichmentJob,
+  isEnrichmentJobActive,
+  runEnrichmentChunk,
+} from "@/lib/services/enrichment";
+import type { ApiResponse } from "@/lib/types/database";
+
+interface EnrichmentJobRouteContext {
+  params: Promise<{ jobId: string }>;
+}
+
+/**
+ * GET /api/enrichment/[jobId] - Progress of one of the user's metadata
+ * enrichment jobs, polled by the dashboard while it runs
+ *
+ * Each poll of an unfinished job runs its next chunk, unless a run is
+ * already under way.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: EnrichmentJobRouteContext,
+) {
+  try {
+    // Check authentication
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    const { jobId } = await params;
+    const job = isValidObjectId(jobId)
+      ? await getEnrichmentJob(session.user.id, jobId)
+      : null;
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: "Job not found" },
+        { status: 404 },
+      );
+    }
+
+    if (isEnrichmentJobActive(job)) {
+      after(() => runEnrichmentChunk(job.id));
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: job,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error getting enrichment job:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { after, type NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth/config";
+import {
+  enqueueEnrichment,
+  getLatestEnrichmentJob,
+  isEnrichmentJobActive,
+  runEnrichmentChunk,
+} from "@/lib/services/enrichment";
+import { consumeRateLimit } from "@/lib/services/rate-limit";
+import { DEFAULT_SESSION_GAP } from "@/lib/stats/sessions";
+import { resolveTimeZone } from "@/lib/stats/time-zone";
+import type { ApiResponse } from "@/lib/types/database";
+
+// Most video IDs a job takes - well past the largest histories
+const MAX_ENRICHMENT_VIDEO_IDS = 100000;
+
+// Jobs a user may queue per day - the lookups themselves are charged to
+// the user's share of the YouTube quota
+const ENRICHMENT_RATE_LIMIT = 20;
+const ENRICHMENT_RATE_WINDOW = 24 * 60 * 60; // seconds
+
+/**
+ * GET /api/enrichment - The user's latest metadata enrichment job, or null
+ *
+ * An unfinished job is resumed from its cursor, so jobs carry on when the
+ * dashboard is reopened.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    const job = await getLatestEnrichmentJob(session.user.id);
+
+    if (job && isEnrichmentJobActive(job)) {
+      after(() => runEnrichmentChunk(job.id));
+    }
+
+    const response: ApiResponse = {
+      success: true,
+      data: job,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error getting enrichment job:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/enrichment - Queue a job looking up metadata for the songs an
+ * upload couldn't find in the cache
+ *
+ * Takes `{ videoIds }` and responds with the queued job straight away. Its
+ * first chunk runs after the response, and polling the job runs the rest;
+ * the user's stats are recalculated (in their saved time zone and session
+ * gap) when it's done. Queued jobs are rate limited per user.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    const { videoIds } = await request.json();
+
+    if (
+      !Array.isArray(videoIds) ||
+      videoIds.length === 0 ||
+      !videoIds.every((id) => typeof id === "string" && id.length > 0)
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Invalid video IDs" },
+        { status: 400 },
+      );
+    }
+
+    if (videoIds.length > MAX_ENRICHMENT_VIDEO_IDS) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `At most ${MAX_ENRICHMENT_VIDEO_IDS} video IDs per job`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { allowed, retryAfter } = await consumeRateLimit(
+      `enrichment:${session.user.id}`,
+      1,
+      ENRICHMENT_RATE_LIMIT,
+      ENRICHMENT_RATE_WINDOW,
+    );
+
+    if (!allowed) {
+      return NextResponse.json(
+        { success: false, error: "Too many song lookups - try again later" },
+        { status: 429, headers: { "Retry-After": String(retryAfter) } },
+      );
+    }
+
+    const job = await enqueueEnrichment(session.user.id, videoIds, {
+      timeZone: resolveTimeZone(session.user.timeZone),
+      sessionGap: session.user.sessionGap ?? DEFAULT_SESSION_GAP,
+    });
+
+    after(() => runEnrichmentChunk(job.id));
+
+    const response: ApiResponse = {
+      success: true,
+      data: job,
+    };
+
+    return NextResponse.json(response, { status: 202 });
+  } catch (error) {
+    console.error("Error queueing enrichment job:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import { isValidObjectId } from "mongoose";
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth/config";
+import { getPlays, ingestPlays } from "@/lib/services/plays";
+import type { ApiResponse, ResolvedPlay } from "@/lib/types/database";
+
+const DEFAULT_PAGE_SIZE = 1000;
+const MAX_PAGE_SIZE = 10000;
+const MAX_PLAYS_PER_REQUEST = 10000;
+
+/**
+ * Check that a submitted play has the fields we store
+ */
+function isValidPlay(play: unknown): play is ResolvedPlay {
+  if (!play || typeof play !== "object") return false;
+
+  const {
+    title,
+    artist,
+    originalTitle,
+    playedAt,
+    youtubeId,
+    resolvedArtist,
+    songKey,
+    duration,
+    durationSource,
+  } = play as Record<string, unknown>;
+
+  return (
+    typeof title === "string" &&
+    title !== "" &&
+    typeof artist === "string" &&
+    artist !== "" &&
+    typeof originalTitle === "string" &&
+    (typeof playedAt === "string" || typeof playedAt === "number") &&
+    !Number.isNaN(new Date(playedAt).getTime()) &&
+    (youtubeId === undefined || typeof youtubeId === "string") &&
+    typeof resolvedArtist === "string" &&
+    resolvedArtist !== "" &&
+    typeof songKey === "string" &&
+    songKey !== "" &&
+    typeof duration === "number" &&
+    Number.isFinite(duration) &&
+    duration >= 0 &&
+    (durationSource === "metadata" || durationSource === "estimate")
+  );
+}
+
+/**
+ * GET /api/plays - Page through the user's stored listening history
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const cursor = searchParams.get("cursor") || undefined;
+    const limit = Math.min(
+      Number.parseInt(searchParams.get("limit") || "", 10) || DEFAULT_PAGE_SIZE,
+      MAX_PAGE_SIZE,
+    );
+
+    if (cursor && !isValidObjectId(cursor)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid cursor" },
+        { status: 400 },
+      );
+    }
+
+    const page = await getPlays(session.user.id, {
+      cursor,
+      limit: Math.max(limit, 1),
+    });
+
+    const response: ApiResponse = {
+      success: true,
+      data: page,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error getting plays:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * POST /api/plays - Ingest a batch of resolved plays into the user's history
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    const body = await request.json();
+    const plays: unknown = body?.plays;
+
+    // Validate the batch
+    if (
+      !Array.isArray(plays) ||
+      plays.length > MAX_PLAYS_PER_REQUEST ||
+      !plays.every(isValidPlay)
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Invalid plays data" },
+        { status: 400 },
+      );
+    }
+
+    const result = await ingestPlays(
+      session.user.id,
+      plays.map((play) => ({
+        youtubeId: play.youtubeId,
+        title: play.title,
+        artist: play.artist,
+        originalTitle: play.originalTitle,
+        playedAt: new Date(play.playedAt),
+        resolvedArtist: play.resolvedArtist,
+        songKey: play.songKey,
+        duration: play.duration,
+        durationSource: play.durationSource,
+      })),
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error saving plays:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
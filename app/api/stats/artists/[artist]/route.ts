@@ -0,0 +1,76 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth/config";
+import { getArtistDetail } from "@/lib/services/plays";
+import { decodeRouteParam } from "@/lib/stats/rankings";
+import { isValidTimeZone, resolveTimeZone } from "@/lib/stats/time-zone";
+import type { ApiResponse, ArtistDetail } from "@/lib/types/database";
+
+interface ArtistRouteContext {
+  params: Promise<{ artist: string }>;
+}
+
+/**
+ * GET /api/stats/artists/[artist] - Everything the user listened to by an
+ * artist, from their stored plays
+ *
+ * Accepts the same `timeZone` parameter as `GET /api/stats`; the timeline's
+ * months are counted in it.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: ArtistRouteContext,
+) {
+  try {
+    // Check authentication
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    const artist = decodeRouteParam((await params).artist).trim();
+    const requestedTimeZone = request.nextUrl.searchParams.get("timeZone");
+
+    if (!artist) {
+      return NextResponse.json(
+        { success: false, error: "Artist is required" },
+        { status: 400 },
+      );
+    }
+
+    if (requestedTimeZone && !isValidTimeZone(requestedTimeZone)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid time zone" },
+        { status: 400 },
+      );
+    }
+
+    const timeZone = resolveTimeZone(requestedTimeZone, session.user.timeZone);
+    const detail = await getArtistDetail(session.user.id, artist, timeZone);
+
+    if (!detail) {
+      return NextResponse.json(
+        { success: false, error: "Artist not found" },
+        { status: 404 },
+      );
+    }
+
+    const response: ApiResponse<ArtistDetail> = {
+      success: true,
+      data: detail,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching artist:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -2,9 +2,26 @@ import { type NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth/config";
 import connectDB from "@/lib/db/connect";
 import { UserStats } from "@/lib/db/models/UserStats";
-import { updateUserStats } from "@/lib/services/user-stats";
+import { countPlays, deletePlays } from "@/lib/services/plays";
+import {
+  calculateUserStatsInRange,
+  deleteUserStats,
+  updateUserStats,
+} from "@/lib/services/user-stats";
+import { parseRangeParams } from "@/lib/stats/range";
+import { DEFAULT_SESSION_GAP, isValidSessionGap } from "@/lib/stats/sessions";
+import { isValidTimeZone, resolveTimeZone } from "@/lib/stats/time-zone";
 import type { ApiResponse, IUserStats } from "@/lib/types/database";
 
+/**
+ * GET /api/stats - Get user stats, optionally restricted to a date range
+ *
+ * Without range parameters the saved stats are returned, as counted by
+ * the last upload or `PATCH`. With `from`/`to`, `range=7d|30d|90d` or
+ * `year=YYYY` they are calculated from the stored plays. Days are counted
+ * in the `timeZone` given, and sessions split at the `sessionGap`
+ * (minutes) given, falling back to the ones on the user's profile.
+ */
 export async function GET(request: NextRequest) {
   try {
     // Check authentication
@@ -19,6 +36,58 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const range = parseRangeParams(request.nextUrl.searchParams);
+
+    if (!range) {
+      return NextResponse.json(
+        { success: false, error: "Invalid date range" },
+        { status: 400 },
+      );
+    }
+
+    const requestedTimeZone = request.nextUrl.searchParams.get("timeZone");
+
+    if (requestedTimeZone && !isValidTimeZone(requestedTimeZone)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid time zone" },
+        { status: 400 },
+      );
+    }
+
+    const timeZone = resolveTimeZone(requestedTimeZone, session.user.timeZone);
+
+    const requestedSessionGap = request.nextUrl.searchParams.get("sessionGap");
+
+    if (
+      requestedSessionGap &&
+      !isValidSessionGap(Number(requestedSessionGap))
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Invalid session gap" },
+        { status: 400 },
+      );
+    }
+
+    const sessionGap = requestedSessionGap
+      ? Number(requestedSessionGap)
+      : (session.user.sessionGap ?? DEFAULT_SESSION_GAP);
+
+    if (range.type !== "all") {
+      const rangeStats = await calculateUserStatsInRange(
+        session.user.id,
+        range,
+        timeZone,
+        sessionGap,
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: rangeStats,
+      };
+
+      return NextResponse.json(response);
+    }
+
     await connectDB();
 
     const userStats: IUserStats | null = await UserStats.findOne({
@@ -101,3 +170,115 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * PATCH /api/stats - Recount the saved stats after the user changed their
+ * time zone or session gap
+ *
+ * Takes `{ timeZone, sessionGap }`, either of which falls back to the one
+ * on the user's profile. Histories uploaded before plays were stored are
+ * left as they are.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    if (body.timeZone !== undefined && !isValidTimeZone(body.timeZone)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid time zone" },
+        { status: 400 },
+      );
+    }
+
+    if (body.sessionGap !== undefined && !isValidSessionGap(body.sessionGap)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid session gap" },
+        { status: 400 },
+      );
+    }
+
+    const timeZone = resolveTimeZone(body.timeZone, session.user.timeZone);
+    const sessionGap =
+      body.sessionGap ?? session.user.sessionGap ?? DEFAULT_SESSION_GAP;
+
+    if ((await countPlays(session.user.id)) === 0) {
+      const response: ApiResponse = {
+        success: true,
+        message: "No stored plays to recount",
+      };
+
+      return NextResponse.json(response);
+    }
+
+    const recounted = await calculateUserStatsInRange(
+      session.user.id,
+      { type: "all" },
+      timeZone,
+      sessionGap,
+    );
+    await updateUserStats(session.user.id, recounted);
+
+    const response: ApiResponse = {
+      success: true,
+      data: recounted,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error recounting user stats:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
+
+/**
+ * DELETE /api/stats - Delete the user's saved stats and stored listening
+ * history, so the next upload starts from scratch
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    await Promise.all([
+      deleteUserStats(session.user.id),
+      deletePlays(session.user.id),
+    ]);
+
+    const response: ApiResponse = {
+      success: true,
+      message: "Stats and history deleted",
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error deleting user stats:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth/config";
+import { getSongDetail } from "@/lib/services/plays";
+import { decodeRouteParam } from "@/lib/stats/rankings";
+import { isValidTimeZone, resolveTimeZone } from "@/lib/stats/time-zone";
+import type { ApiResponse, SongDetail } from "@/lib/types/database";
+
+interface SongRouteContext {
+  params: Promise<{ songKey: string }>;
+}
+
+/**
+ * GET /api/stats/songs/[songKey] - The user's play history of a song, with
+ * its monthly rank among everything they played
+ *
+ * Accepts the same `timeZone` parameter as `GET /api/stats`; the timeline's
+ * months are counted in it.
+ */
+export async function GET(request: NextRequest, { params }: SongRouteContext) {
+  try {
+    // Check authentication
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    const songKey = decodeRouteParam((await params).songKey).trim();
+    const requestedTimeZone = request.nextUrl.searchParams.get("timeZone");
+
+    if (!songKey) {
+      return NextResponse.json(
+        { success: false, error: "Song is required" },
+        { status: 400 },
+      );
+    }
+
+    if (requestedTimeZone && !isValidTimeZone(requestedTimeZone)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid time zone" },
+        { status: 400 },
+      );
+    }
+
+    const timeZone = resolveTimeZone(requestedTimeZone, session.user.timeZone);
+    const detail = await getSongDetail(session.user.id, songKey, timeZone);
+
+    if (!detail) {
+      return NextResponse.json(
+        { success: false, error: "Song not found" },
+        { status: 404 },
+      );
+    }
+
+    const response: ApiResponse<SongDetail> = {
+      success: true,
+      data: detail,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching song:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth/config";
+import { getTopSongs } from "@/lib/services/plays";
+import { getRangeBounds, parseRangeParams } from "@/lib/stats/range";
+import { parseRankingParams, SONG_SORTS } from "@/lib/stats/rankings";
+import { isValidTimeZone, resolveTimeZone } from "@/lib/stats/time-zone";
+import type { ApiResponse, ISong, PaginatedResult } from "@/lib/types/database";
+
+/**
+ * GET /api/stats/songs - Page through the user's songs, ranked
+ *
+ * Accepts `sort=plays|duration`, `limit` (up to 500) and `offset`, plus
+ * the same range and `timeZone` parameters as `GET /api/stats`.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const range = parseRangeParams(searchParams);
+    const ranking = parseRankingParams(searchParams, SONG_SORTS);
+    const requestedTimeZone = searchParams.get("timeZone");
+
+    if (!range) {
+      return NextResponse.json(
+        { success: false, error: "Invalid date range" },
+        { status: 400 },
+      );
+    }
+
+    if (!ranking) {
+      return NextResponse.json(
+        { success: false, error: "Invalid sort or page" },
+        { status: 400 },
+      );
+    }
+
+    if (requestedTimeZone && !isValidTimeZone(requestedTimeZone)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid time zone" },
+        { status: 400 },
+      );
+    }
+
+    const timeZone = resolveTimeZone(requestedTimeZone, session.user.timeZone);
+    const songs = await getTopSongs(session.user.id, {
+      ...ranking,
+      ...getRangeBounds(range, timeZone),
+    });
+
+    const response: ApiResponse<PaginatedResult<ISong>> = {
+      success: true,
+      data: songs,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error ranking songs:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth/config";
+import { getListeningYears } from "@/lib/services/plays";
+import { resolveTimeZone } from "@/lib/stats/time-zone";
+import type { ApiResponse } from "@/lib/types/database";
+
+/**
+ * GET /api/stats/years - List the years the user has listening history in
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    const years = await getListeningYears(
+      session.user.id,
+      resolveTimeZone(session.user.timeZone),
+    );
+
+    const response: ApiResponse = {
+      success: true,
+      data: years,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error getting listening years:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
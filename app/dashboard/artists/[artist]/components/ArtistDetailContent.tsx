@@ -0,0 +1,386 @@
+"use client";
+
+import {
+  ArrowLeft,
+  CalendarClock,
+  CalendarPlus,
+  Music,
+  PieChart,
+  TrendingUp,
+  Users,
+} from "lucide-react";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { CardLoading } from "@/components/ui/loading";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { getSongHref } from "@/lib/stats/rankings";
+import type { ApiResponse, ArtistDetail } from "@/lib/types/database";
+
+interface ArtistDetailContentProps {
+  artist: string;
+}
+
+const chartConfig = {
+  playCount: {
+    label: "Plays",
+    color: "var(--chart-1)",
+  },
+} satisfies ChartConfig;
+
+function formatDuration(seconds: number) {
+  if (!seconds || !Number.isFinite(seconds) || seconds < 0) {
+    return "0m";
+  }
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+}
+
+function formatNumber(num: number) {
+  return new Intl.NumberFormat().format(num);
+}
+
+function formatPercent(share: number) {
+  return new Intl.NumberFormat(undefined, {
+    style: "percent",
+    maximumFractionDigits: share < 0.01 ? 2 : 1,
+  }).format(share);
+}
+
+function formatMonth(month: string, style: "short" | "long" = "short") {
+  // Months are already in the user's time zone
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, {
+    month: style,
+    year: style === "short" ? "2-digit" : "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function getArtistInitials(name: string) {
+  return name
+    .split(" ")
+    .map((word) => word[0])
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+}
+
+export function ArtistDetailContent({ artist }: ArtistDetailContentProps) {
+  const [detail, setDetail] = useState<ArtistDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { timeZone, isLoading: timeZoneLoading } = useTimeZone();
+
+  useEffect(() => {
+    // Wait for the profile so months aren't counted in the wrong zone first
+    if (timeZoneLoading) return;
+
+    let cancelled = false;
+
+    async function fetchArtist() {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams({ timeZone });
+        const response = await fetch(
+          `/api/stats/artists/${encodeURIComponent(artist)}?${params}`,
+        );
+        if (!response.ok) {
+          if (response.status === 404) {
+            if (!cancelled) setDetail(null);
+            return;
+          }
+          throw new Error("Failed to fetch artist");
+        }
+        const data: ApiResponse<ArtistDetail> = await response.json();
+        if (!cancelled) setDetail(data.data ?? null);
+      } catch (error) {
+        console.error("Error fetching artist:", error);
+        if (!cancelled) setDetail(null);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    fetchArtist();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [artist, timeZone, timeZoneLoading]);
+
+  const formatDate = (date: string | Date) =>
+    new Intl.DateTimeFormat(undefined, {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone,
+    }).format(new Date(date));
+
+  const backButton = (
+    <Button variant="ghost" size="sm" asChild className="-ml-2 mb-6">
+      <Link href="/dashboard">
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to dashboard
+      </Link>
+    </Button>
+  );
+
+  if (isLoading) {
+    return <CardLoading text={`Loading ${artist}...`} height="16rem" />;
+  }
+
+  if (!detail) {
+    return (
+      <div>
+        {backButton}
+        <Card className="border-dashed border-2">
+          <CardContent className="text-center py-12 text-muted-foreground">
+            <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>You haven't listened to {artist} yet.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const peakMonth = detail.timeline.reduce(
+    (best, month) => (month.playCount > best.playCount ? month : best),
+    detail.timeline[0],
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        {backButton}
+        <div className="flex items-center gap-5">
+          <Avatar className="h-24 w-24 rounded-xl">
+            {detail.artistImage ? (
+              <AvatarImage
+                src={detail.artistImage}
+                alt={detail.name}
+                className="object-cover"
+              />
+            ) : null}
+            <AvatarFallback className="rounded-xl bg-muted text-2xl font-semibold">
+              {getArtistInitials(detail.name)}
+            </AvatarFallback>
+          </Avatar>
+          <div className="space-y-1 min-w-0">
+            <h1 className="text-3xl font-bold tracking-tight truncate">
+              {detail.name}
+            </h1>
+            <p className="text-muted-foreground">
+              {formatNumber(detail.playCount)} plays ·{" "}
+              {formatDuration(detail.totalDuration)} listened ·{" "}
+              {formatNumber(detail.uniqueSongs)}{" "}
+              {detail.uniqueSongs === 1 ? "song" : "songs"}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">First Listen</CardTitle>
+            <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center">
+              <CalendarPlus className="h-4 w-4 text-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatDate(detail.firstPlayed)}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Last Listen</CardTitle>
+            <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center">
+              <CalendarClock className="h-4 w-4 text-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatDate(detail.lastPlayed)}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              Share of Plays
+            </CardTitle>
+            <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center">
+              <PieChart className="h-4 w-4 text-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="text-2xl font-bold">
+              {formatPercent(detail.playShare)}
+            </div>
+            <Progress value={detail.playShare * 100} className="h-2" />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              Share of Listening Time
+            </CardTitle>
+            <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center">
+              <PieChart className="h-4 w-4 text-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="text-2xl font-bold">
+              {formatPercent(detail.durationShare)}
+            </div>
+            <Progress value={detail.durationShare * 100} className="h-2" />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <TrendingUp className="h-5 w-5" />
+            Listening Timeline
+          </CardTitle>
+          <CardDescription>
+            Plays per month · peaked in {formatMonth(peakMonth.month, "long")}{" "}
+            with {formatNumber(peakMonth.playCount)} plays
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer
+            config={chartConfig}
+            className="aspect-auto h-64 w-full"
+          >
+            <BarChart data={detail.timeline} margin={{ left: 0, right: 4 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="month"
+                tickFormatter={(month: string) => formatMonth(month)}
+                tickLine={false}
+                axisLine={false}
+                minTickGap={24}
+              />
+              <YAxis
+                allowDecimals={false}
+                tickLine={false}
+                axisLine={false}
+                width={36}
+              />
+              <ChartTooltip
+                cursor={false}
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(month: string) =>
+                      formatMonth(month, "long")
+                    }
+                  />
+                }
+              />
+              <Bar
+                dataKey="playCount"
+                fill="var(--color-playCount)"
+                radius={[3, 3, 0, 0]}
+              />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Music className="h-5 w-5" />
+            Songs
+          </CardTitle>
+          <CardDescription>
+            Every {detail.name} song you've played, most played first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Song</TableHead>
+                <TableHead className="text-right">Plays</TableHead>
+                <TableHead className="text-right">Time listened</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {detail.songs.map((song, index) => (
+                <TableRow key={song.key}>
+                  <TableCell className="font-medium text-muted-foreground tabular-nums">
+                    {index + 1}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Avatar className="h-9 w-9 rounded-md">
+                        {song.thumbnail ? (
+                          <AvatarImage
+                            src={song.thumbnail}
+                            alt={song.title}
+                            className="object-cover"
+                          />
+                        ) : null}
+                        <AvatarFallback className="rounded-md bg-muted">
+                          <Music className="h-4 w-4" />
+                        </AvatarFallback>
+                      </Avatar>
+                      <Link
+                        href={getSongHref(song.key)}
+                        className="font-medium truncate max-w-[20rem] hover:underline"
+                      >
+                        {song.title}
+                      </Link>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatNumber(song.playCount || 0)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatDuration(song.totalDuration || 0)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth/config";
+import { decodeRouteParam } from "@/lib/stats/rankings";
+import { ArtistDetailContent } from "./components/ArtistDetailContent";
+
+interface ArtistPageProps {
+  params: Promise<{ artist: string }>;
+}
+
+export async function generateMetadata({
+  params,
+}: ArtistPageProps): Promise<Metadata> {
+  const artist = decodeRouteParam((await params).artist);
+
+  return {
+    title: `${artist} | YTMusic Stats`,
+    description: `Your YouTube Music listening history with ${artist}`,
+  };
+}
+
+export default async function ArtistPage({ params }: ArtistPageProps) {
+  const artist = decodeRouteParam((await params).artist);
+
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user) {
+    redirect("/auth/signin");
+  }
+
+  return (
+    <div className="min-h-screen pt-20">
+      <div className="container mx-auto px-4 py-8">
+        <ArtistDetailContent artist={artist} />
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,9 @@
 import {
   BarChart3,
   Calendar,
+  CalendarX,
   Clock,
+  Disc3,
   Gift,
   Music,
   Sparkles,
@@ -13,6 +15,7 @@ import {
 import { motion, type Variants } from "motion/react";
 import Link from "next/link";
 import { useEffect, useState } from "react";
+import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -24,10 +27,23 @@ import {
 } from "@/components/ui/card";
 import { CardLoading } from "@/components/ui/loading";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import type { ApiResponse, IUserStats } from "@/lib/types/database";
+import { useSessionGap } from "@/hooks/use-session-gap";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { formatStatsRange, rangeToSearchParams } from "@/lib/stats/range";
+import type { ApiResponse, IUserStats, StatsRange } from "@/lib/types/database";
+import { cn } from "@/lib/utils";
+import { DateRangePicker } from "./DateRangePicker";
+import { EnrichmentStatus } from "./EnrichmentStatus";
+import { GenreBreakdown } from "./GenreBreakdown";
+import { ListeningCalendar } from "./ListeningCalendar";
+import { ListeningHeatmap } from "./ListeningHeatmap";
 import { ListeningPatterns } from "./ListeningPatterns";
+import { ListeningSessions } from "./ListeningSessions";
+import { ListeningTrends } from "./ListeningTrends";
 import { SongAge } from "./SongAge";
 import { StatsOverview } from "./StatsOverview";
+import { TimeZonePicker } from "./TimeZonePicker";
+import { TopAlbums } from "./TopAlbums";
 import { TopArtists } from "./TopArtists";
 import { TopSongs } from "./TopSongs";
 
@@ -60,31 +76,98 @@ interface DashboardContentProps {
 export function DashboardContent({ userId: _userId }: DashboardContentProps) {
   const [stats, setStats] = useState<ApiResponse<IUserStats> | null>(null);
   const [statsLoading, setStatsLoading] = useState(true);
+  const [range, setRange] = useState<StatsRange>({ type: "all" });
+  const [rangeLoading, setRangeLoading] = useState(false);
+  const [historyBounds, setHistoryBounds] = useState<{
+    first: Date;
+    last: Date;
+  } | null>(null);
+  const { timeZone, setTimeZone, isLoading: timeZoneLoading } = useTimeZone();
+  const { sessionGap, setSessionGap } = useSessionGap();
 
-  // Fetch user stats
+  // Fetch user stats for the selected range, counted in the user's time zone
   useEffect(() => {
+    // Wait for the profile so stats aren't fetched in the wrong zone first
+    if (timeZoneLoading) return;
+
+    let cancelled = false;
+
     async function fetchStats() {
+      setRangeLoading(true);
       try {
-        const response = await fetch("/api/stats");
+        const params = rangeToSearchParams(range);
+        params.set("timeZone", timeZone);
+        params.set("sessionGap", String(sessionGap));
+        const response = await fetch(`/api/stats?${params}`);
         if (!response.ok) {
           if (response.status === 404) {
-            setStats(null);
+            if (!cancelled) setStats(null);
             return;
           }
           throw new Error("Failed to fetch stats");
         }
-        const data = await response.json();
+        const data: ApiResponse<IUserStats> = await response.json();
+        if (cancelled) return;
+
         setStats(data);
+        // The all-time stats tell us which years can be picked
+        if (range.type === "all" && data.data?.firstPlayDate) {
+          setHistoryBounds({
+            first: new Date(data.data.firstPlayDate),
+            last: new Date(data.data.lastPlayDate ?? Date.now()),
+          });
+        }
       } catch (error) {
         console.error("Error fetching stats:", error);
-        setStats(null);
+        // Keep showing the previous range rather than the welcome screen
+        if (!cancelled && range.type === "all") setStats(null);
       } finally {
-        setStatsLoading(false);
+        if (!cancelled) {
+          setStatsLoading(false);
+          setRangeLoading(false);
+        }
       }
     }
 
     fetchStats();
-  }, []);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [range, timeZone, sessionGap, timeZoneLoading]);
+
+  const years: number[] = [];
+  if (historyBounds) {
+    for (
+      let year = historyBounds.last.getFullYear();
+      year >= historyBounds.first.getFullYear();
+      year--
+    ) {
+      years.push(year);
+    }
+  }
+
+  const rangeLabel =
+    range.type === "all" ? undefined : formatStatsRange(range, timeZone);
+
+  const changeTimeZone = async (value: string) => {
+    try {
+      await setTimeZone(value);
+    } catch (error) {
+      console.error("Error updating time zone:", error);
+      toast.error("Couldn't update your time zone");
+    }
+  };
+
+  const changeSessionGap = async (value: number) => {
+    try {
+      await setSessionGap(value);
+    } catch (error) {
+      console.error("Error updating session gap:", error);
+      toast.error("Couldn't update your session gap");
+    }
+  };
+  const isEmptyRange = range.type !== "all" && stats?.data?.totalListens === 0;
 
   if (statsLoading) {
     return <CardLoading text="Loading your music stats..." height="16rem" />;
@@ -193,21 +276,83 @@ export function DashboardContent({ userId: _userId }: DashboardContentProps) {
               </Badge>
             )}
         </div>
-        <Link href="/wrapped">
-          <Button className="gap-2">
-            <Gift className="h-4 w-4" />
-            View Your Wrapped
-          </Button>
-        </Link>
+        <div className="flex items-center gap-2 flex-wrap">
+          <TimeZonePicker
+            value={timeZone}
+            onChange={changeTimeZone}
+            disabled={rangeLoading}
+          />
+          <DateRangePicker
+            value={range}
+            onChange={setRange}
+            years={years}
+            minDate={historyBounds?.first}
+            timeZone={timeZone}
+            disabled={rangeLoading}
+          />
+          <Link href="/wrapped">
+            <Button className="gap-2">
+              <Gift className="h-4 w-4" />
+              View Your Wrapped
+            </Button>
+          </Link>
+        </div>
       </motion.div>
 
       <motion.div variants={itemVariants}>
+        <EnrichmentStatus
+          // A copy of the range refetches the stats, now recalculated
+          onComplete={() => setRange((current) => ({ ...current }))}
+        />
+      </motion.div>
+
+      {isEmptyRange && (
+        <motion.div variants={itemVariants}>
+          <Card className="border-dashed border-2">
+            <CardContent className="py-12 text-center">
+              <CalendarX className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
+              <p className="font-medium">No plays in this range</p>
+              <p className="text-sm text-muted-foreground mt-1">
+                Pick another range, or upload a newer Takeout to include recent
+                listening.
+              </p>
+            </CardContent>
+          </Card>
+        </motion.div>
+      )}
+
+      <motion.div
+        variants={itemVariants}
+        className={cn(
+          "transition-opacity",
+          rangeLoading && "opacity-60",
+          isEmptyRange && "hidden",
+        )}
+      >
         <StatsOverview stats={stats?.data} />
       </motion.div>
 
-      <motion.div variants={itemVariants}>
+      <motion.div
+        variants={itemVariants}
+        className={cn(
+          "transition-opacity",
+          rangeLoading && "opacity-60",
+          isEmptyRange && "hidden",
+        )}
+      >
+        <ListeningCalendar stats={stats?.data} />
+      </motion.div>
+
+      <motion.div
+        variants={itemVariants}
+        className={cn(
+          "transition-opacity",
+          rangeLoading && "opacity-60",
+          isEmptyRange && "hidden",
+        )}
+      >
         <Tabs defaultValue="artists" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 lg:grid-cols-3 bg-muted">
+          <TabsList className="grid w-full grid-cols-4 lg:grid-cols-4 bg-muted">
             {/* <TabsTrigger
               value="overview"
               className="gap-2 data-[state=active]:bg-background"
@@ -229,6 +374,13 @@ export function DashboardContent({ userId: _userId }: DashboardContentProps) {
               <Music className="h-4 w-4" />
               <span className="hidden sm:inline">Songs</span>
             </TabsTrigger>
+            <TabsTrigger
+              value="albums"
+              className="gap-2 data-[state=active]:bg-background"
+            >
+              <Disc3 className="h-4 w-4" />
+              <span className="hidden sm:inline">Albums</span>
+            </TabsTrigger>
             <TabsTrigger
               value="insights"
               className="gap-2 data-[state=active]:bg-background"
@@ -246,11 +398,25 @@ export function DashboardContent({ userId: _userId }: DashboardContentProps) {
           </TabsContent> */}
 
           <TabsContent value="artists">
-            <TopArtists stats={stats?.data} />
+            <TopArtists
+              stats={stats?.data}
+              range={range}
+              timeZone={timeZone}
+              rangeLabel={rangeLabel}
+            />
           </TabsContent>
 
           <TabsContent value="songs">
-            <TopSongs stats={stats?.data} />
+            <TopSongs
+              stats={stats?.data}
+              range={range}
+              timeZone={timeZone}
+              rangeLabel={rangeLabel}
+            />
+          </TabsContent>
+
+          <TabsContent value="albums">
+            <TopAlbums stats={stats?.data} rangeLabel={rangeLabel} />
           </TabsContent>
 
           <TabsContent value="insights" className="space-y-6">
@@ -258,6 +424,20 @@ export function DashboardContent({ userId: _userId }: DashboardContentProps) {
 
             <ListeningPatterns stats={stats?.data} />
 
+            <ListeningHeatmap stats={stats?.data} />
+
+            <ListeningSessions
+              stats={stats?.data}
+              timeZone={timeZone}
+              sessionGap={sessionGap}
+              onSessionGapChange={changeSessionGap}
+              disabled={rangeLoading}
+            />
+
+            <ListeningTrends stats={stats?.data} />
+
+            <GenreBreakdown stats={stats?.data} />
+
             <div className="grid gap-6 md:grid-cols-2">
               <Card>
                 <CardHeader>
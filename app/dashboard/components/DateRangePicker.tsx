@@ -0,0 +1,126 @@
+"use client";
+
+import { CalendarRange, ChevronDown } from "lucide-react";
+import { useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import {
+  createDayRange,
+  formatStatsRange,
+  LAST_DAYS_PRESETS,
+} from "@/lib/stats/range";
+import type { StatsRange } from "@/lib/types/database";
+import { cn } from "@/lib/utils";
+
+interface DateRangePickerProps {
+  value: StatsRange;
+  onChange: (range: StatsRange) => void;
+  /** Calendar years with listening history, newest first */
+  years: number[];
+  /** Earliest selectable day */
+  minDate?: Date;
+  /** Time zone picked days are resolved in */
+  timeZone: string;
+  disabled?: boolean;
+}
+
+function isSameRange(a: StatsRange, b: StatsRange): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function DateRangePicker({
+  value,
+  onChange,
+  years,
+  minDate,
+  timeZone,
+  disabled,
+}: DateRangePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DateRange | undefined>(
+    value.type === "custom" ? { from: value.from, to: value.to } : undefined,
+  );
+
+  const presets: StatsRange[] = [
+    { type: "all" },
+    ...LAST_DAYS_PRESETS.map((days) => ({ type: "last" as const, days })),
+    ...years.map((year) => ({ type: "year" as const, year })),
+  ];
+
+  const select = (range: StatsRange) => {
+    onChange(range);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2" disabled={disabled}>
+          <CalendarRange className="h-4 w-4" />
+          {formatStatsRange(value, timeZone)}
+          <ChevronDown className="h-4 w-4 text-muted-foreground" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-auto p-0">
+        <div className="flex flex-col sm:flex-row">
+          <div className="flex flex-row flex-wrap sm:flex-col gap-1 p-3 sm:w-40 sm:max-h-80 sm:overflow-y-auto">
+            {presets.map((preset) => (
+              <Button
+                key={formatStatsRange(preset, timeZone)}
+                variant="ghost"
+                size="sm"
+                className={cn(
+                  "justify-start",
+                  isSameRange(preset, value) && "bg-muted",
+                )}
+                onClick={() => select(preset)}
+              >
+                {formatStatsRange(preset, timeZone)}
+              </Button>
+            ))}
+          </div>
+          <Separator orientation="vertical" className="hidden sm:block" />
+          <div className="p-3 space-y-3">
+            <p className="text-sm font-medium px-1">Custom range</p>
+            <Calendar
+              mode="range"
+              selected={draft}
+              onSelect={setDraft}
+              defaultMonth={draft?.from}
+              disabled={[
+                { after: new Date() },
+                ...(minDate ? [{ before: minDate }] : []),
+              ]}
+              numberOfMonths={1}
+            />
+            <Button
+              size="sm"
+              className="w-full"
+              disabled={!draft?.from}
+              onClick={() => {
+                if (draft?.from) {
+                  select(
+                    createDayRange(
+                      draft.from,
+                      draft.to ?? draft.from,
+                      timeZone,
+                    ),
+                  );
+                }
+              }}
+            >
+              Apply
+            </Button>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
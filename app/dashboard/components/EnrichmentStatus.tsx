@@ -0,0 +1,135 @@
+"use client";
+
+import { Loader2, X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { ApiResponse, EnrichmentJobSummary } from "@/lib/types/database";
+import { EstimatedSongsNotice } from "./EstimatedSongsNotice";
+
+interface EnrichmentStatusProps {
+  /** Called when a job finishes while the dashboard is open */
+  onComplete: () => void;
+}
+
+// How often a running job is checked on
+const POLL_INTERVAL = 3000;
+// A job waiting for the YouTube quota to reset has nothing new to show
+const PAUSED_POLL_INTERVAL = 60_000;
+
+function isActive(job: EnrichmentJobSummary | null): boolean {
+  return job?.status === "queued" || job?.status === "running";
+}
+
+/**
+ * Progress of the background song lookup after an upload, and the songs it
+ * couldn't find
+ */
+export function EnrichmentStatus({ onComplete }: EnrichmentStatusProps) {
+  const [job, setJob] = useState<EnrichmentJobSummary | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  useEffect(() => {
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    let wasActive = false;
+
+    async function poll(url: string) {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error("Failed to fetch enrichment job");
+
+        const data: ApiResponse<EnrichmentJobSummary | null> =
+          await response.json();
+        if (cancelled) return;
+
+        const latest = data.data ?? null;
+        setJob(latest);
+
+        if (latest && isActive(latest)) {
+          wasActive = true;
+          timeout = setTimeout(
+            () => poll(`/api/enrichment/${latest.id}`),
+            latest.quotaExhausted ? PAUSED_POLL_INTERVAL : POLL_INTERVAL,
+          );
+        } else if (wasActive && latest?.status === "completed") {
+          // Stats were recalculated with the new metadata
+          onCompleteRef.current();
+        }
+      } catch (error) {
+        console.error("Error fetching enrichment job:", error);
+      }
+    }
+
+    poll("/api/enrichment");
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, []);
+
+  if (!job || dismissed) return null;
+
+  if (isActive(job)) {
+    const percent = job.total > 0 ? (job.processed / job.total) * 100 : 0;
+
+    return (
+      <Alert>
+        <Loader2 className="animate-spin" />
+        <AlertTitle>
+          {job.quotaExhausted ? "Song lookup paused" : "Looking up your songs"}
+        </AlertTitle>
+        <AlertDescription>
+          <p>
+            {job.processed.toLocaleString()} of {job.total.toLocaleString()}{" "}
+            songs checked.{" "}
+            {job.quotaExhausted
+              ? "The daily YouTube quota ran out - the rest are looked up once it resets."
+              : "These stats are provisional - durations of new songs are estimated until the lookup finishes."}
+          </p>
+          <Progress value={percent} className="h-2 w-full max-w-xs" />
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (job.status === "failed") {
+    return (
+      <Alert variant="destructive">
+        <X />
+        <AlertTitle>Couldn't look up your songs</AlertTitle>
+        <AlertDescription>
+          <p>
+            Durations of new songs are estimated. Upload the same file again to
+            retry - plays won't be counted twice.
+          </p>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (job.unresolved === 0) return null;
+
+  return (
+    <div className="relative">
+      <EstimatedSongsNotice
+        songs={job.estimatedSongs}
+        total={job.unresolved}
+        quotaExhausted={job.quotaExhausted}
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="absolute top-2 right-2 h-7 w-7"
+        onClick={() => setDismissed(true)}
+        aria-label="Dismiss"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
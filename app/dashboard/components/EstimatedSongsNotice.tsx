@@ -0,0 +1,66 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { EstimatedSong } from "@/lib/types/database";
+
+interface EstimatedSongsNoticeProps {
+  /** The most played of the songs */
+  songs: EstimatedSong[];
+  /** How many songs use estimates, listed or not */
+  total: number;
+  quotaExhausted: boolean;
+}
+
+// Songs listed before the rest are summarised
+const MAX_LISTED_SONGS = 10;
+
+export function EstimatedSongsNotice({
+  songs,
+  total,
+  quotaExhausted,
+}: EstimatedSongsNoticeProps) {
+  const listed = songs.slice(0, MAX_LISTED_SONGS);
+  const remaining = total - listed.length;
+
+  return (
+    <Alert>
+      <AlertTriangle />
+      <AlertTitle>
+        {total.toLocaleString()} {total === 1 ? "song uses" : "songs use"}{" "}
+        estimated data
+      </AlertTitle>
+      <AlertDescription>
+        <p>
+          {quotaExhausted
+            ? "The YouTube API's daily quota ran out while looking up your songs."
+            : "Some of your songs couldn't be looked up."}{" "}
+          Their durations are estimated and their artists come from your
+          Takeout, so listening time may be off. Upload the same file again{" "}
+          {quotaExhausted ? "tomorrow" : "later"} to fill them in - plays won't
+          be counted twice.
+        </p>
+        <ul className="w-full space-y-0.5 text-xs">
+          {listed.map((song) => (
+            <li key={song.youtubeId} className="flex gap-2">
+              <span className="truncate">
+                {song.title}
+                <span className="text-muted-foreground/70">
+                  {" · "}
+                  {song.artist}
+                </span>
+              </span>
+              <span className="ml-auto shrink-0 tabular-nums">
+                {song.playCount.toLocaleString()}{" "}
+                {song.playCount === 1 ? "play" : "plays"}
+              </span>
+            </li>
+          ))}
+        </ul>
+        {remaining > 0 && (
+          <p className="text-xs">And {remaining.toLocaleString()} more</p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { Tags } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import type { IUserStats } from "@/lib/types/database";
+
+interface GenreBreakdownProps {
+  stats?: IUserStats;
+}
+
+// Genres listed before the rest are grouped together
+const MAX_GENRES = 8;
+
+export function GenreBreakdown({ stats }: GenreBreakdownProps) {
+  const genres = stats?.genreDistribution ?? [];
+
+  if (genres.length === 0) {
+    return null;
+  }
+
+  const formatDuration = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours > 0) {
+      return `${hours}h ${minutes}m`;
+    }
+    return `${minutes}m`;
+  };
+
+  const shown = genres.slice(0, MAX_GENRES);
+  const rest = genres.slice(MAX_GENRES);
+  const classifiedPlays = genres.reduce(
+    (sum, genre) => sum + genre.playCount,
+    0,
+  );
+  const coverage = stats?.totalListens
+    ? Math.round((classifiedPlays / stats.totalListens) * 100)
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          Genres
+        </CardTitle>
+        <CardDescription>
+          Mostly {shown[0].genre} · based on the {coverage}% of plays with a
+          known genre
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {shown.map((genre) => (
+          <div key={genre.genre} className="space-y-1.5">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">{genre.genre}</span>
+              <span className="text-muted-foreground tabular-nums">
+                {genre.percentage}% · {formatDuration(genre.totalDuration)}
+              </span>
+            </div>
+            <Progress value={genre.percentage} className="h-2" />
+          </div>
+        ))}
+        {rest.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Plus {rest.map((genre) => genre.genre).join(", ")}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import { CalendarDays, ChevronLeft, ChevronRight } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { addDays } from "@/lib/stats/time-zone";
+import type { DailyListening, IUserStats } from "@/lib/types/database";
+
+interface ListeningCalendarProps {
+  stats?: IUserStats;
+}
+
+interface CalendarCell {
+  date: string;
+  column: number;
+  row: number;
+  day?: DailyListening;
+  level: number;
+}
+
+const CELL_SIZE = 11;
+const CELL_GAP = 3;
+const CELL_STEP = CELL_SIZE + CELL_GAP;
+const LABEL_WIDTH = 28;
+const LABEL_HEIGHT = 16;
+
+const MONTHS = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+// Rows are Sunday first, like the heatmap; only every other day is labelled
+const WEEKDAY_LABELS = ["", "Mon", "", "Wed", "", "Fri", ""];
+
+// Opacity of each intensity level, level 0 being a day without plays
+const LEVEL_OPACITY = [0.08, 0.3, 0.55, 0.8, 1];
+
+function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+}
+
+function formatDay(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Split listening durations into quartiles, GitHub style
+ */
+function getLevelThresholds(days: DailyListening[]): number[] {
+  const durations = days
+    .map((day) => day.totalDuration)
+    .filter((duration) => duration > 0)
+    .sort((a, b) => a - b);
+  if (durations.length === 0) return [];
+  return [0.25, 0.5, 0.75].map(
+    (quantile) => durations[Math.floor(quantile * (durations.length - 1))],
+  );
+}
+
+/**
+ * Lay out every day of a year in week columns
+ */
+function buildYearGrid(year: number, days: DailyListening[]): CalendarCell[] {
+  const byDate = new Map(days.map((day) => [day.date, day]));
+  const thresholds = getLevelThresholds(days);
+  const firstDay = `${year}-01-01`;
+  const startWeekday = new Date(`${firstDay}T00:00:00Z`).getUTCDay();
+
+  const cells: CalendarCell[] = [];
+  for (let index = 0; ; index++) {
+    const date = addDays(firstDay, index);
+    if (!date.startsWith(String(year))) break;
+
+    const day = byDate.get(date);
+    const duration = day?.totalDuration ?? 0;
+    cells.push({
+      date,
+      column: Math.floor((index + startWeekday) / 7),
+      row: (index + startWeekday) % 7,
+      day,
+      level:
+        duration > 0
+          ? 1 + thresholds.filter((threshold) => duration > threshold).length
+          : 0,
+    });
+  }
+  return cells;
+}
+
+export function ListeningCalendar({ stats }: ListeningCalendarProps) {
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+  const [hovered, setHovered] = useState<CalendarCell | null>(null);
+
+  const dailyListening = stats?.dailyListening ?? [];
+  if (dailyListening.length === 0) {
+    return null;
+  }
+
+  // Newest first, like the rest of the year pickers
+  const years = [
+    ...new Set(dailyListening.map((day) => Number(day.date.slice(0, 4)))),
+  ].sort((a, b) => b - a);
+  const year =
+    selectedYear !== null && years.includes(selectedYear)
+      ? selectedYear
+      : years[0];
+  const yearIndex = years.indexOf(year);
+
+  const yearDays = dailyListening.filter((day) =>
+    day.date.startsWith(String(year)),
+  );
+  const cells = buildYearGrid(year, yearDays);
+  const columns = cells[cells.length - 1].column + 1;
+  const width = LABEL_WIDTH + columns * CELL_STEP;
+  const height = LABEL_HEIGHT + 7 * CELL_STEP;
+
+  const activeDays = yearDays.filter((day) => day.playCount > 0).length;
+  const totalDuration = yearDays.reduce(
+    (sum, day) => sum + day.totalDuration,
+    0,
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="h-5 w-5" />
+            Listening Calendar
+          </CardTitle>
+          <CardDescription>
+            {activeDays.toLocaleString()} days with music in {year} ·{" "}
+            {formatDuration(totalDuration)} listened
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            aria-label="Previous year"
+            disabled={yearIndex >= years.length - 1}
+            onClick={() => setSelectedYear(years[yearIndex + 1])}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium tabular-nums w-10 text-center">
+            {year}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            aria-label="Next year"
+            disabled={yearIndex <= 0}
+            onClick={() => setSelectedYear(years[yearIndex - 1])}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="relative">
+          <svg
+            viewBox={`0 0 ${width} ${height}`}
+            className="w-full text-muted-foreground"
+            role="img"
+            aria-label={`Listening calendar for ${year}`}
+            onMouseMove={(event) => {
+              // Find the day under the pointer in viewBox coordinates
+              const box = event.currentTarget.getBoundingClientRect();
+              const x = ((event.clientX - box.left) / box.width) * width;
+              const y = ((event.clientY - box.top) / box.height) * height;
+              const column = Math.floor((x - LABEL_WIDTH) / CELL_STEP);
+              const row = Math.floor((y - LABEL_HEIGHT) / CELL_STEP);
+              setHovered(
+                cells.find(
+                  (cell) => cell.column === column && cell.row === row,
+                ) ?? null,
+              );
+            }}
+            onMouseLeave={() => setHovered(null)}
+          >
+            {MONTHS.map((month, index) => {
+              const first = cells.find(
+                (cell) =>
+                  cell.date.slice(5, 7) === String(index + 1).padStart(2, "0"),
+              );
+              if (!first) return null;
+              return (
+                <text
+                  key={month}
+                  x={LABEL_WIDTH + first.column * CELL_STEP}
+                  y={10}
+                  fontSize={9}
+                  fill="currentColor"
+                >
+                  {month}
+                </text>
+              );
+            })}
+            {WEEKDAY_LABELS.map((label, row) =>
+              label ? (
+                <text
+                  key={label}
+                  x={0}
+                  y={LABEL_HEIGHT + row * CELL_STEP + CELL_SIZE - 2}
+                  fontSize={9}
+                  fill="currentColor"
+                >
+                  {label}
+                </text>
+              ) : null,
+            )}
+            {cells.map((cell) => (
+              <rect
+                key={cell.date}
+                x={LABEL_WIDTH + cell.column * CELL_STEP}
+                y={LABEL_HEIGHT + cell.row * CELL_STEP}
+                width={CELL_SIZE}
+                height={CELL_SIZE}
+                rx={2}
+                fill="var(--chart-1)"
+                fillOpacity={LEVEL_OPACITY[cell.level]}
+                stroke={
+                  hovered?.date === cell.date ? "var(--foreground)" : undefined
+                }
+              />
+            ))}
+          </svg>
+
+          {hovered && (
+            <div
+              className="pointer-events-none absolute z-10 -translate-x-1/2 -translate-y-full border-border/50 bg-background grid min-w-[10rem] gap-1 rounded-lg border px-2.5 py-1.5 text-xs shadow-xl"
+              style={{
+                left: `${((LABEL_WIDTH + hovered.column * CELL_STEP + CELL_SIZE / 2) / width) * 100}%`,
+                top: `${((LABEL_HEIGHT + hovered.row * CELL_STEP) / height) * 100}%`,
+              }}
+            >
+              <p className="font-medium">{formatDay(hovered.date)}</p>
+              {hovered.day ? (
+                <>
+                  <p className="text-muted-foreground">
+                    {hovered.day.playCount.toLocaleString()} plays ·{" "}
+                    {formatDuration(hovered.day.totalDuration)}
+                  </p>
+                  {hovered.day.topSong && (
+                    <p className="truncate max-w-[14rem]">
+                      {hovered.day.topSong.title}
+                      <span className="text-muted-foreground">
+                        {" "}
+                        · {hovered.day.topSong.artist} (
+                        {hovered.day.topSong.playCount}×)
+                      </span>
+                    </p>
+                  )}
+                </>
+              ) : (
+                <p className="text-muted-foreground">No listening</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-1 mt-3 text-xs text-muted-foreground">
+          <span className="mr-1">Less</span>
+          {LEVEL_OPACITY.map((opacity) => (
+            <span
+              key={opacity}
+              className="h-3 w-3 rounded-sm"
+              style={{ backgroundColor: "var(--chart-1)", opacity }}
+            />
+          ))}
+          <span className="ml-1">More</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
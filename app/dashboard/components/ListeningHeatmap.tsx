@@ -0,0 +1,199 @@
+"use client";
+
+import { Grid3x3 } from "lucide-react";
+import { useState } from "react";
+import { Scatter, ScatterChart, XAxis, YAxis } from "recharts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+} from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { IUserStats } from "@/lib/types/database";
+
+interface ListeningHeatmapProps {
+  stats?: IUserStats;
+}
+
+type HeatmapMetric = "plays" | "time";
+
+interface HeatmapCell {
+  day: number;
+  hour: number;
+  playCount: number;
+  totalDuration: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const chartConfig = {
+  plays: {
+    label: "Plays",
+    color: "var(--chart-1)",
+  },
+} satisfies ChartConfig;
+
+function formatHour(hour: number) {
+  if (hour === 0) return "12am";
+  if (hour === 12) return "12pm";
+  return hour < 12 ? `${hour}am` : `${hour - 12}pm`;
+}
+
+function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+}
+
+/**
+ * A single heatmap square, sized to fill its day/hour slot
+ */
+function HeatmapSquare(props: {
+  cx?: number;
+  cy?: number;
+  xAxis?: { width?: number };
+  yAxis?: { height?: number };
+  payload?: HeatmapCell;
+  metric: HeatmapMetric;
+  max: number;
+}) {
+  const { cx, cy, xAxis, yAxis, payload, metric, max } = props;
+  if (cx === undefined || cy === undefined || !payload) return null;
+
+  const width = (xAxis?.width ?? 0) / 24;
+  const height = (yAxis?.height ?? 0) / 7;
+  const value = metric === "plays" ? payload.playCount : payload.totalDuration;
+  const intensity = max > 0 ? value / max : 0;
+
+  return (
+    <rect
+      x={cx - width / 2 + 1}
+      y={cy - height / 2 + 1}
+      width={Math.max(width - 2, 0)}
+      height={Math.max(height - 2, 0)}
+      rx={3}
+      fill="var(--color-plays)"
+      fillOpacity={value > 0 ? 0.12 + intensity * 0.88 : 0.04}
+    />
+  );
+}
+
+export function ListeningHeatmap({ stats }: ListeningHeatmapProps) {
+  const [metric, setMetric] = useState<HeatmapMetric>("plays");
+  const heatmap = stats?.listeningHeatmap;
+
+  if (!heatmap?.playCount?.length) {
+    return null;
+  }
+
+  const cells: HeatmapCell[] = heatmap.playCount.flatMap((row, day) =>
+    row.map((playCount, hour) => ({
+      day,
+      hour,
+      playCount,
+      totalDuration: heatmap.totalDuration[day]?.[hour] ?? 0,
+    })),
+  );
+  const max = Math.max(
+    ...cells.map((cell) =>
+      metric === "plays" ? cell.playCount : cell.totalDuration,
+    ),
+  );
+  const peak = cells.reduce((best, cell) =>
+    cell.playCount > best.playCount ? cell : best,
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Grid3x3 className="h-5 w-5" />
+            When You Listen
+          </CardTitle>
+          <CardDescription>
+            {peak.playCount > 0
+              ? `Most active on ${WEEKDAYS[peak.day]} around ${formatHour(peak.hour)}`
+              : "Plays by day of week and hour"}{" "}
+            {stats?.timeZone && ` · ${stats.timeZone}`}
+          </CardDescription>
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={metric}
+          onValueChange={(value) => value && setMetric(value as HeatmapMetric)}
+        >
+          <ToggleGroupItem value="plays">Plays</ToggleGroupItem>
+          <ToggleGroupItem value="time">Time</ToggleGroupItem>
+        </ToggleGroup>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer
+          config={chartConfig}
+          className="aspect-auto h-64 w-full"
+        >
+          <ScatterChart margin={{ top: 4, right: 4, bottom: 4, left: 0 }}>
+            <XAxis
+              type="number"
+              dataKey="hour"
+              domain={[-0.5, 23.5]}
+              ticks={[0, 3, 6, 9, 12, 15, 18, 21]}
+              tickFormatter={formatHour}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis
+              type="number"
+              dataKey="day"
+              domain={[-0.5, 6.5]}
+              ticks={[0, 1, 2, 3, 4, 5, 6]}
+              tickFormatter={(day: number) => WEEKDAYS[day]}
+              reversed
+              tickLine={false}
+              axisLine={false}
+              width={36}
+            />
+            <ChartTooltip
+              cursor={false}
+              content={({ active, payload }) => {
+                const cell = payload?.[0]?.payload as HeatmapCell | undefined;
+                if (!active || !cell) return null;
+                return (
+                  <div className="border-border/50 bg-background grid min-w-[8rem] gap-1 rounded-lg border px-2.5 py-1.5 text-xs shadow-xl">
+                    <p className="font-medium">
+                      {WEEKDAYS[cell.day]} {formatHour(cell.hour)}–
+                      {formatHour((cell.hour + 1) % 24)}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {cell.playCount.toLocaleString()} plays ·{" "}
+                      {formatDuration(cell.totalDuration)}
+                    </p>
+                  </div>
+                );
+              }}
+            />
+            <Scatter
+              data={cells}
+              isAnimationActive={false}
+              shape={(props: object) => (
+                <HeatmapSquare {...props} metric={metric} max={max} />
+              )}
+            />
+          </ScatterChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
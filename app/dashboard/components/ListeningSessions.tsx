@@ -0,0 +1,214 @@
+"use client";
+
+import { Headphones, Timer } from "lucide-react";
+import Link from "next/link";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getArtistHref } from "@/lib/stats/rankings";
+import { formatSessionGap, SESSION_GAP_OPTIONS } from "@/lib/stats/sessions";
+import type { IUserStats } from "@/lib/types/database";
+
+interface ListeningSessionsProps {
+  stats?: IUserStats;
+  /** Time zone session times are shown in */
+  timeZone: string;
+  /** Minutes without plays that end a session */
+  sessionGap: number;
+  onSessionGapChange: (sessionGap: number) => void;
+  disabled?: boolean;
+}
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+}
+
+export function ListeningSessions({
+  stats,
+  timeZone,
+  sessionGap,
+  onSessionGapChange,
+  disabled,
+}: ListeningSessionsProps) {
+  const sessions = stats?.topSessions ?? [];
+
+  // Keep a custom gap saved on the profile selectable
+  const gapOptions: number[] = SESSION_GAP_OPTIONS.includes(
+    sessionGap as (typeof SESSION_GAP_OPTIONS)[number],
+  )
+    ? [...SESSION_GAP_OPTIONS]
+    : [...SESSION_GAP_OPTIONS, sessionGap].sort((a, b) => a - b);
+
+  const formatDate = new Intl.DateTimeFormat(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone,
+  });
+  const formatTime = new Intl.DateTimeFormat(undefined, {
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+  });
+
+  const summary = [
+    {
+      label: "Sessions",
+      value: new Intl.NumberFormat().format(stats?.sessionCount ?? 0),
+    },
+    {
+      label: "Average length",
+      value: formatDuration(stats?.averageSessionDuration ?? 0),
+    },
+    {
+      label: "Per listening day",
+      value: (stats?.sessionsPerDay ?? 0).toFixed(1),
+    },
+    { label: "Longest", value: formatDuration(stats?.longestSession ?? 0) },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Headphones className="h-5 w-5" />
+            Listening Sessions
+          </CardTitle>
+          <CardDescription>
+            A session ends after {formatSessionGap(sessionGap)} without a new
+            play
+          </CardDescription>
+        </div>
+        <Select
+          value={String(sessionGap)}
+          onValueChange={(value) => onSessionGapChange(Number(value))}
+          disabled={disabled}
+        >
+          <SelectTrigger className="gap-2 w-fit" aria-label="Session gap">
+            <Timer className="h-4 w-4" />
+            <SelectValue>{formatSessionGap(sessionGap)} gap</SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            {gapOptions.map((gap) => (
+              <SelectItem key={gap} value={String(gap)}>
+                {formatSessionGap(gap)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {summary.map((item) => (
+            <div key={item.label} className="rounded-lg bg-muted/50 p-3">
+              <p className="text-xs text-muted-foreground">{item.label}</p>
+              <p className="text-xl font-semibold tabular-nums">{item.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {sessions.length > 0 ? (
+          <div>
+            <p className="text-sm font-medium mb-1">Biggest sessions</p>
+            <Accordion type="single" collapsible>
+              {sessions.map((session, index) => {
+                const start = new Date(session.start);
+                const end = new Date(session.end);
+                const tracks = session.tracks ?? [];
+
+                return (
+                  <AccordionItem
+                    key={start.toISOString()}
+                    value={start.toISOString()}
+                  >
+                    <AccordionTrigger className="hover:no-underline">
+                      <div className="flex flex-1 items-center gap-3 min-w-0">
+                        <span className="text-muted-foreground tabular-nums w-5">
+                          {index + 1}
+                        </span>
+                        <div className="min-w-0">
+                          <p className="truncate">{formatDate.format(start)}</p>
+                          <p className="text-xs text-muted-foreground font-normal">
+                            {formatTime.format(start)} –{" "}
+                            {formatTime.format(end)} · {session.trackCount}{" "}
+                            tracks
+                          </p>
+                        </div>
+                        <span className="ml-auto tabular-nums">
+                          {formatDuration(session.duration)}
+                        </span>
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent>
+                      <ol className="space-y-1.5 pl-8">
+                        {tracks.map((track) => (
+                          <li
+                            key={`${new Date(track.playedAt).getTime()}-${track.title}`}
+                            className="flex items-baseline gap-3"
+                          >
+                            <span className="text-xs text-muted-foreground tabular-nums w-16 shrink-0">
+                              {formatTime.format(new Date(track.playedAt))}
+                            </span>
+                            <span className="min-w-0 truncate">
+                              {track.title}
+                              <span className="text-muted-foreground">
+                                {" · "}
+                                <Link
+                                  href={getArtistHref(track.artist)}
+                                  className="hover:underline"
+                                >
+                                  {track.artist}
+                                </Link>
+                              </span>
+                            </span>
+                          </li>
+                        ))}
+                      </ol>
+                      {session.trackCount > tracks.length && (
+                        <p className="text-xs text-muted-foreground pl-8 mt-2">
+                          And {session.trackCount - tracks.length} more
+                        </p>
+                      )}
+                    </AccordionContent>
+                  </AccordionItem>
+                );
+              })}
+            </Accordion>
+          </div>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Headphones className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No sessions to show yet.</p>
+            <p className="text-xs mt-1">
+              Upload your history again to break it into sessions.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { ArrowDownRight, ArrowUpRight, LineChart, Minus } from "lucide-react";
+import { useState } from "react";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+} from "@/components/ui/chart";
+import type { IUserStats, MonthlyTrend } from "@/lib/types/database";
+import { cn } from "@/lib/utils";
+
+interface ListeningTrendsProps {
+  stats?: IUserStats;
+}
+
+type TrendMetric = "plays" | "minutes" | "songs" | "artists" | "newArtists";
+
+const METRICS: {
+  value: TrendMetric;
+  label: string;
+  getValue: (month: MonthlyTrend) => number;
+}[] = [
+  { value: "plays", label: "Plays", getValue: (month) => month.playCount },
+  {
+    value: "minutes",
+    label: "Minutes",
+    getValue: (month) => Math.round(month.totalDuration / 60),
+  },
+  { value: "songs", label: "Songs", getValue: (month) => month.uniqueSongs },
+  {
+    value: "artists",
+    label: "Artists",
+    getValue: (month) => month.uniqueArtists,
+  },
+  {
+    value: "newArtists",
+    label: "New artists",
+    getValue: (month) => month.newArtists,
+  },
+];
+
+const chartConfig = {
+  value: {
+    label: "Value",
+    color: "var(--chart-1)",
+  },
+} satisfies ChartConfig;
+
+function formatMonth(month: string, style: "short" | "long" = "short") {
+  // Months are already in the listener's time zone
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, {
+    month: style,
+    year: style === "short" ? "2-digit" : "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Change from one period to the next, as a fraction of the earlier one
+ */
+function getChange(current: number, previous: number): number | null {
+  if (previous === 0) return current === 0 ? 0 : null;
+  return (current - previous) / previous;
+}
+
+function ChangeBadge({ change }: { change: number | null }) {
+  if (change === null) {
+    return <span className="text-xs text-muted-foreground">new</span>;
+  }
+
+  const Icon = change > 0 ? ArrowUpRight : change < 0 ? ArrowDownRight : Minus;
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-0.5 text-xs font-medium tabular-nums",
+        change > 0 && "text-emerald-600 dark:text-emerald-400",
+        change < 0 && "text-rose-600 dark:text-rose-400",
+        change === 0 && "text-muted-foreground",
+      )}
+    >
+      <Icon className="h-3 w-3" />
+      {new Intl.NumberFormat(undefined, {
+        style: "percent",
+        maximumFractionDigits: 0,
+        signDisplay: "exceptZero",
+      }).format(change)}
+    </span>
+  );
+}
+
+export function ListeningTrends({ stats }: ListeningTrendsProps) {
+  const [metric, setMetric] = useState<TrendMetric>("plays");
+  const trends = stats?.monthlyTrends ?? [];
+
+  // A trend needs at least two months to compare
+  if (trends.length < 2) {
+    return null;
+  }
+
+  const { getValue, label } =
+    METRICS.find((option) => option.value === metric) ?? METRICS[0];
+  const data = trends.map((month, index) => ({
+    month: month.month,
+    value: getValue(month),
+    change:
+      index > 0 ? getChange(getValue(month), getValue(trends[index - 1])) : 0,
+  }));
+
+  const latest = trends[trends.length - 1];
+  const previous = trends[trends.length - 2];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LineChart className="h-5 w-5" />
+          Monthly Trends
+        </CardTitle>
+        <CardDescription>
+          {formatMonth(latest.month, "long")} compared to{" "}
+          {formatMonth(previous.month, "long")} · pick a metric to chart it
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-5">
+          {METRICS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              aria-pressed={option.value === metric}
+              onClick={() => setMetric(option.value)}
+              className={cn(
+                "rounded-lg border p-3 text-left transition-colors hover:bg-muted/50",
+                option.value === metric && "border-foreground/40 bg-muted/50",
+              )}
+            >
+              <p className="text-xs text-muted-foreground">{option.label}</p>
+              <p className="text-xl font-bold tabular-nums">
+                {getValue(latest).toLocaleString()}
+              </p>
+              <ChangeBadge
+                change={getChange(getValue(latest), getValue(previous))}
+              />
+            </button>
+          ))}
+        </div>
+
+        <ChartContainer
+          config={chartConfig}
+          className="aspect-auto h-64 w-full"
+        >
+          <AreaChart data={data} margin={{ left: 0, right: 4 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="month"
+              tickFormatter={(month: string) => formatMonth(month)}
+              tickLine={false}
+              axisLine={false}
+              minTickGap={24}
+            />
+            <YAxis
+              allowDecimals={false}
+              tickLine={false}
+              axisLine={false}
+              width={44}
+            />
+            <ChartTooltip
+              cursor={false}
+              content={({ active, payload }) => {
+                const point = payload?.[0]?.payload as
+                  | (typeof data)[number]
+                  | undefined;
+                if (!active || !point) return null;
+                return (
+                  <div className="border-border/50 bg-background grid min-w-[8rem] gap-1 rounded-lg border px-2.5 py-1.5 text-xs shadow-xl">
+                    <p className="font-medium">
+                      {formatMonth(point.month, "long")}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {point.value.toLocaleString()} {label.toLowerCase()}
+                    </p>
+                    {point.month !== data[0].month && (
+                      <ChangeBadge change={point.change} />
+                    )}
+                  </div>
+                );
+              }}
+            />
+            <Area
+              dataKey="value"
+              type="monotone"
+              stroke="var(--color-value)"
+              fill="var(--color-value)"
+              fillOpacity={0.2}
+              strokeWidth={2}
+            />
+          </AreaChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
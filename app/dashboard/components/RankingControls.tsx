@@ -0,0 +1,166 @@
+"use client";
+
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RANKING_PAGE_SIZES, SORT_LABELS } from "@/lib/stats/rankings";
+import type { ArtistSort } from "@/lib/types/database";
+import { cn } from "@/lib/utils";
+
+interface RankingToolbarProps<TSort extends ArtistSort> {
+  sort: TSort;
+  sorts: readonly TSort[];
+  onSortChange: (sort: TSort) => void;
+  limit: number;
+  onLimitChange: (limit: number) => void;
+}
+
+/**
+ * Sort and page size pickers for a ranked table
+ */
+export function RankingToolbar<TSort extends ArtistSort>({
+  sort,
+  sorts,
+  onSortChange,
+  limit,
+  onLimitChange,
+}: RankingToolbarProps<TSort>) {
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <Select
+        value={sort}
+        onValueChange={(value) => onSortChange(value as TSort)}
+      >
+        <SelectTrigger size="sm" aria-label="Sort by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {sorts.map((option) => (
+            <SelectItem key={option} value={option}>
+              {SORT_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={String(limit)}
+        onValueChange={(value) => onLimitChange(Number(value))}
+      >
+        <SelectTrigger size="sm" aria-label="Rows per page">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {RANKING_PAGE_SIZES.map((size) => (
+            <SelectItem key={size} value={String(size)}>
+              {size} per page
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface RankingPaginationProps {
+  total: number;
+  limit: number;
+  offset: number;
+  onOffsetChange: (offset: number) => void;
+}
+
+/**
+ * Page numbers to show: the first, the last and the ones around the
+ * current page, with a gap on either side when pages are skipped
+ */
+function getVisiblePages(
+  current: number,
+  count: number,
+): (number | "start-gap" | "end-gap")[] {
+  const pages: (number | "start-gap" | "end-gap")[] = [];
+  for (let page = 0; page < count; page++) {
+    if (page === 0 || page === count - 1 || Math.abs(page - current) <= 1) {
+      pages.push(page);
+    } else {
+      const gap = page < current ? "start-gap" : "end-gap";
+      if (pages[pages.length - 1] !== gap) pages.push(gap);
+    }
+  }
+  return pages;
+}
+
+/**
+ * Page links for a ranked table
+ */
+export function RankingPagination({
+  total,
+  limit,
+  offset,
+  onOffsetChange,
+}: RankingPaginationProps) {
+  const pageCount = Math.ceil(total / limit);
+  const current = Math.floor(offset / limit);
+
+  if (pageCount <= 1) return null;
+
+  const goTo = (page: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (page >= 0 && page < pageCount) {
+      onOffsetChange(page * limit);
+    }
+  };
+
+  return (
+    <Pagination className="mt-4">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            onClick={goTo(current - 1)}
+            aria-disabled={current === 0}
+            className={cn(current === 0 && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+        {getVisiblePages(current, pageCount).map((page) =>
+          typeof page === "number" ? (
+            <PaginationItem key={page}>
+              <PaginationLink
+                href="#"
+                isActive={page === current}
+                onClick={goTo(page)}
+              >
+                {page + 1}
+              </PaginationLink>
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={page}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ),
+        )}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            onClick={goTo(current + 1)}
+            aria-disabled={current === pageCount - 1}
+            className={cn(
+              current === pageCount - 1 && "pointer-events-none opacity-50",
+            )}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
@@ -1,8 +1,18 @@
 "use client";
 
-import { Calendar, Clock, Headphones, Music, Star, Users } from "lucide-react";
+import {
+  Calendar,
+  CalendarOff,
+  Clock,
+  Flame,
+  Headphones,
+  Music,
+  Star,
+  Users,
+  Zap,
+} from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import type { IUserStats } from "@/lib/types/database";
+import type { DayStreak, IUserStats } from "@/lib/types/database";
 
 interface StatsOverviewProps {
   stats: IUserStats;
@@ -39,9 +49,21 @@ export function StatsOverview({ stats }: StatsOverviewProps) {
       month: "short",
       day: "numeric",
       year: "numeric",
+      // Days are stored as midnight UTC
+      timeZone: "UTC",
     }).format(dateObj);
   };
 
+  const formatStreak = (streak?: DayStreak) => {
+    if (!streak) return "0 days";
+    return `${formatNumber(streak.days)} ${streak.days === 1 ? "day" : "days"}`;
+  };
+
+  const formatStreakDates = (streak: DayStreak) => {
+    if (streak.days === 1) return formatDate(streak.start);
+    return `${formatDate(streak.start)} – ${formatDate(streak.end)}`;
+  };
+
   return (
     <div className="space-y-6">
       {/* Primary Stats */}
@@ -161,6 +183,69 @@ export function StatsOverview({ stats }: StatsOverviewProps) {
           </CardContent>
         </Card>
 
+        <Card className="hover:shadow-md hover:-translate-y-1 transition-all duration-300 group">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              Longest Streak
+            </CardTitle>
+            <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center group-hover:bg-muted/80 transition-colors">
+              <Flame className="h-4 w-4 text-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatStreak(stats.longestStreak)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {stats.longestStreak
+                ? formatStreakDates(stats.longestStreak)
+                : "No data available"}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="hover:shadow-md hover:-translate-y-1 transition-all duration-300 group">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              Current Streak
+            </CardTitle>
+            <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center group-hover:bg-muted/80 transition-colors">
+              <Zap className="h-4 w-4 text-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatStreak(stats.currentStreak)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {stats.currentStreak
+                ? `Since ${formatDate(stats.currentStreak.start)}`
+                : "Play something today to start one"}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="hover:shadow-md hover:-translate-y-1 transition-all duration-300 group">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              Longest Silence
+            </CardTitle>
+            <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center group-hover:bg-muted/80 transition-colors">
+              <CalendarOff className="h-4 w-4 text-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatStreak(stats.longestGap)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {stats.longestGap
+                ? formatStreakDates(stats.longestGap)
+                : "You never took a day off"}
+            </p>
+          </CardContent>
+        </Card>
+
         {/* <Card className="hover:shadow-md hover:-translate-y-1 transition-all duration-300 group">
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">Top Song</CardTitle>
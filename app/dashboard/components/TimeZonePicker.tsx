@@ -0,0 +1,44 @@
+"use client";
+
+import { Globe } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface TimeZonePickerProps {
+  value: string;
+  onChange: (timeZone: string) => void;
+  disabled?: boolean;
+}
+
+function getTimeZones(current: string): string[] {
+  const timeZones = Intl.supportedValuesOf("timeZone");
+  // Aliases like "UTC" aren't always in the canonical list
+  return timeZones.includes(current) ? timeZones : [current, ...timeZones];
+}
+
+export function TimeZonePicker({
+  value,
+  onChange,
+  disabled,
+}: TimeZonePickerProps) {
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className="gap-2" aria-label="Time zone">
+        <Globe className="h-4 w-4" />
+        <SelectValue>{value.replaceAll("_", " ")}</SelectValue>
+      </SelectTrigger>
+      <SelectContent className="max-h-80">
+        {getTimeZones(value).map((timeZone) => (
+          <SelectItem key={timeZone} value={timeZone}>
+            {timeZone.replaceAll("_", " ")}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { Disc3 } from "lucide-react";
+import Link from "next/link";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getArtistHref } from "@/lib/stats/rankings";
+import type { IUserStats } from "@/lib/types/database";
+
+interface TopAlbumsProps {
+  stats?: IUserStats;
+  /** Label of the selected date range, all time when missing */
+  rangeLabel?: string;
+}
+
+export function TopAlbums({ stats, rangeLabel }: TopAlbumsProps) {
+  const formatDuration = (seconds: number) => {
+    if (!seconds || !Number.isFinite(seconds) || seconds < 0) {
+      return "0m";
+    }
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours > 0) {
+      return `${hours}h ${minutes}m`;
+    }
+    return `${minutes}m`;
+  };
+
+  const formatNumber = (num: number) => {
+    return new Intl.NumberFormat().format(num);
+  };
+
+  const albums = stats?.topAlbums || [];
+
+  return (
+    <Card className="h-fit">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center">
+            <Disc3 className="h-4 w-4 text-foreground" />
+          </div>
+          Top Albums
+        </CardTitle>
+        <CardDescription>
+          Your most played albums{" "}
+          {rangeLabel ? `· ${rangeLabel}` : "of all time"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {albums.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">#</TableHead>
+                <TableHead>Album</TableHead>
+                <TableHead className="text-right">Plays</TableHead>
+                <TableHead className="text-right">Songs</TableHead>
+                <TableHead className="text-right">Time listened</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {albums.map((album, index) => (
+                <TableRow key={`${album.artist}-${album.name}`}>
+                  <TableCell className="font-medium text-muted-foreground tabular-nums">
+                    {index + 1}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-3 min-w-0">
+                      <Avatar className="h-9 w-9 rounded-md">
+                        {album.thumbnail ? (
+                          <AvatarImage
+                            src={album.thumbnail}
+                            alt={album.name}
+                            className="object-cover"
+                          />
+                        ) : null}
+                        <AvatarFallback className="rounded-md bg-muted">
+                          <Disc3 className="h-4 w-4" />
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <p className="font-medium truncate max-w-[16rem]">
+                          {album.name}
+                        </p>
+                        <Link
+                          href={getArtistHref(album.artist)}
+                          className="block text-xs text-muted-foreground truncate max-w-[16rem] hover:underline"
+                        >
+                          {album.artist}
+                        </Link>
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatNumber(album.playCount)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatNumber(album.uniqueSongs)}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {formatDuration(album.totalDuration)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Disc3 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No album data available yet.</p>
+            <p className="text-xs mt-1">
+              Albums are picked up from YouTube Music art tracks - upload your
+              history again to fill them in.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,6 +1,8 @@
 "use client";
 
-import { Play, Users } from "lucide-react";
+import { Users } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Card,
@@ -9,14 +11,58 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Progress } from "@/components/ui/progress";
-import type { IUserStats } from "@/lib/types/database";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useRanking } from "@/hooks/use-ranking";
+import {
+  ARTIST_SORTS,
+  DEFAULT_RANKING_LIMIT,
+  getArtistHref,
+} from "@/lib/stats/rankings";
+import type {
+  ArtistSort,
+  IUserStats,
+  StatsRange,
+  TopArtist,
+} from "@/lib/types/database";
+import { cn } from "@/lib/utils";
+import { RankingPagination, RankingToolbar } from "./RankingControls";
 
 interface TopArtistsProps {
   stats?: IUserStats;
+  /** Selected date range */
+  range: StatsRange;
+  /** Time zone the range's days are counted in */
+  timeZone: string;
+  /** Label of the selected date range, all time when missing */
+  rangeLabel?: string;
 }
 
-export function TopArtists({ stats }: TopArtistsProps) {
+export function TopArtists({
+  stats,
+  range,
+  timeZone,
+  rangeLabel,
+}: TopArtistsProps) {
+  const [sort, setSort] = useState<ArtistSort>("plays");
+  const [limit, setLimit] = useState(DEFAULT_RANKING_LIMIT);
+  const [paging, setPaging] = useState({ range, offset: 0 });
+  // Start from the first page whenever the range changes
+  const offset = paging.range === range ? paging.offset : 0;
+
+  const { page, isLoading } = useRanking<TopArtist, ArtistSort>(
+    "/api/stats/artists",
+    range,
+    timeZone,
+    { sort, limit, offset },
+  );
+
   const formatDuration = (seconds: number) => {
     if (!seconds || !Number.isFinite(seconds) || seconds < 0) {
       return "0m";
@@ -43,101 +89,116 @@ export function TopArtists({ stats }: TopArtistsProps) {
       .slice(0, 2);
   };
 
-  const topArtists = stats?.topArtists || [];
-  const maxPlayCount = topArtists[0]?.playCount || 1;
+  // Histories uploaded before plays were stored only have the saved top 10
+  const artists = page && page.total > 0 ? page.items : stats?.topArtists || [];
+  const firstRank = page && page.total > 0 ? offset + 1 : 1;
 
   return (
     <Card className="h-fit">
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center">
-            <Users className="h-4 w-4 text-foreground" />
-          </div>
-          Top Artists
-        </CardTitle>
-        <CardDescription>Your most played artists of all time</CardDescription>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0 flex-wrap">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center">
+              <Users className="h-4 w-4 text-foreground" />
+            </div>
+            Top Artists
+          </CardTitle>
+          <CardDescription>
+            {page && page.total > 0
+              ? `${formatNumber(page.total)} artists`
+              : "Your most played artists"}{" "}
+            {rangeLabel ? `· ${rangeLabel}` : "of all time"}
+          </CardDescription>
+        </div>
+        <RankingToolbar
+          sort={sort}
+          sorts={ARTIST_SORTS}
+          onSortChange={(value) => {
+            setSort(value);
+            setPaging({ range, offset: 0 });
+          }}
+          limit={limit}
+          onLimitChange={(value) => {
+            setLimit(value);
+            setPaging({ range, offset: 0 });
+          }}
+        />
       </CardHeader>
       <CardContent>
-        <div className="space-y-3">
-          {topArtists.slice(0, 10).map((artist, index) => (
-            <div
-              key={artist.name}
-              className="group flex items-center space-x-3 p-2 rounded-lg hover:bg-muted/50 transition-colors"
+        {artists.length > 0 ? (
+          <>
+            <Table
+              className={cn("transition-opacity", isLoading && "opacity-60")}
             >
-              <div
-                className={`flex items-center justify-center w-7 h-7 rounded-full text-sm font-bold ${
-                  index === 0
-                    ? "bg-foreground text-background"
-                    : index === 1
-                      ? "bg-muted-foreground text-background"
-                      : index === 2
-                        ? "bg-muted-foreground/80 text-background"
-                        : "bg-muted text-foreground"
-                }`}
-              >
-                {index + 1}
-              </div>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>Artist</TableHead>
+                  <TableHead className="text-right">Plays</TableHead>
+                  <TableHead className="text-right">Songs</TableHead>
+                  <TableHead className="text-right">Time listened</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {artists.map((artist, index) => (
+                  <TableRow key={artist.name}>
+                    <TableCell className="font-medium text-muted-foreground tabular-nums">
+                      {firstRank + index}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-3 min-w-0">
+                        <Avatar className="h-9 w-9 rounded-md">
+                          {artist.artistImage ? (
+                            <AvatarImage
+                              src={artist.artistImage}
+                              alt={artist.name}
+                              className="object-cover"
+                            />
+                          ) : null}
+                          <AvatarFallback className="rounded-md bg-muted text-xs font-semibold">
+                            {getArtistInitials(artist.name)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <Link
+                          href={getArtistHref(artist.name)}
+                          className="font-medium truncate max-w-[16rem] hover:underline"
+                        >
+                          {artist.name}
+                        </Link>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatNumber(artist.playCount)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatNumber(artist.uniqueSongs)}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatDuration(artist.totalDuration)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
 
-              <Avatar className="h-10 w-10 rounded-md">
-                {artist.artistImage ? (
-                  <AvatarImage
-                    src={artist.artistImage}
-                    alt={artist.name}
-                    className="object-cover"
-                  />
-                ) : null}
-                <AvatarFallback
-                  className={`rounded-md text-sm font-semibold ${
-                    index === 0
-                      ? "bg-foreground text-background"
-                      : index === 1
-                        ? "bg-muted-foreground text-background"
-                        : index === 2
-                          ? "bg-muted-foreground/80 text-background"
-                          : "bg-muted text-foreground"
-                  }`}
-                >
-                  {getArtistInitials(artist.name)}
-                </AvatarFallback>
-              </Avatar>
-
-              <div className="flex-1 space-y-1 min-w-0">
-                <div className="flex items-center justify-between">
-                  <p className="font-medium leading-none truncate text-sm">
-                    {artist.name}
-                  </p>
-                  <div className="flex items-center gap-1 text-xs font-medium">
-                    <Play className="h-3 w-3" />
-                    {formatNumber(artist.playCount)}
-                  </div>
-                </div>
-
-                <div className="flex items-center justify-between text-xs text-muted-foreground">
-                  <div className="flex items-center space-x-2">
-                    <span>{formatNumber(artist.uniqueSongs)} songs</span>
-                    <span>•</span>
-                    <span>{formatDuration(artist.totalDuration)}</span>
-                  </div>
-                </div>
-
-                <Progress
-                  value={(artist.playCount / maxPlayCount) * 100}
-                  className="h-1.5"
-                />
-              </div>
-            </div>
-          ))}
-
-          {topArtists.length === 0 && (
-            <div className="text-center py-8 text-muted-foreground">
-              <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No artist data available yet.</p>
-              <p className="text-xs mt-1">
-                Upload your music history to see your top artists!
-              </p>
-            </div>
-          )}
-        </div>
+            {page && (
+              <RankingPagination
+                total={page.total}
+                limit={limit}
+                offset={offset}
+                onOffsetChange={(value) => setPaging({ range, offset: value })}
+              />
+            )}
+          </>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No artist data available yet.</p>
+            <p className="text-xs mt-1">
+              Upload your music history to see your top artists!
+            </p>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
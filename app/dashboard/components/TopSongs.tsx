@@ -1,6 +1,8 @@
 "use client";
 
-import { Music, Play } from "lucide-react";
+import { Music } from "lucide-react";
+import Link from "next/link";
+import { useState } from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Card,
@@ -9,128 +11,195 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { Progress } from "@/components/ui/progress";
-import type { IUserStats } from "@/lib/types/database";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useRanking } from "@/hooks/use-ranking";
+import {
+  DEFAULT_RANKING_LIMIT,
+  getArtistHref,
+  getSongHref,
+  SONG_SORTS,
+} from "@/lib/stats/rankings";
+import type {
+  ISong,
+  IUserStats,
+  SongSort,
+  StatsRange,
+} from "@/lib/types/database";
+import { cn } from "@/lib/utils";
+import { RankingPagination, RankingToolbar } from "./RankingControls";
 
 interface TopSongsProps {
   stats?: IUserStats;
+  /** Selected date range */
+  range: StatsRange;
+  /** Time zone the range's days are counted in */
+  timeZone: string;
+  /** Label of the selected date range, all time when missing */
+  rangeLabel?: string;
 }
 
-export function TopSongs({ stats }: TopSongsProps) {
+export function TopSongs({
+  stats,
+  range,
+  timeZone,
+  rangeLabel,
+}: TopSongsProps) {
+  const [sort, setSort] = useState<SongSort>("plays");
+  const [limit, setLimit] = useState(DEFAULT_RANKING_LIMIT);
+  const [paging, setPaging] = useState({ range, offset: 0 });
+  // Start from the first page whenever the range changes
+  const offset = paging.range === range ? paging.offset : 0;
+
+  const { page, isLoading } = useRanking<ISong, SongSort>(
+    "/api/stats/songs",
+    range,
+    timeZone,
+    { sort, limit, offset },
+  );
+
   const formatDuration = (seconds: number) => {
     if (!seconds || !Number.isFinite(seconds) || seconds < 0) {
-      return "0:00";
+      return "0m";
+    }
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (hours > 0) {
+      return `${hours}h ${minutes}m`;
     }
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = Math.floor(seconds % 60);
-    return `${minutes}:${remainingSeconds.toString().padStart(2, "0")}`;
+    return `${minutes}m`;
   };
 
   const formatNumber = (num: number) => {
     return new Intl.NumberFormat().format(num);
   };
 
-  const topSongs = stats?.topSongs || [];
-  const maxPlayCount = topSongs[0]?.playCount || 1;
+  // Histories uploaded before plays were stored only have the saved top 10
+  const songs = page && page.total > 0 ? page.items : stats?.topSongs || [];
+  const firstRank = page && page.total > 0 ? offset + 1 : 1;
 
   return (
     <Card className="h-fit">
-      <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center">
-            <Music className="h-4 w-4 text-foreground" />
-          </div>
-          Top Songs
-        </CardTitle>
-        <CardDescription>Your most played tracks of all time</CardDescription>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0 flex-wrap">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center">
+              <Music className="h-4 w-4 text-foreground" />
+            </div>
+            Top Songs
+          </CardTitle>
+          <CardDescription>
+            {page && page.total > 0
+              ? `${formatNumber(page.total)} songs`
+              : "Your most played tracks"}{" "}
+            {rangeLabel ? `· ${rangeLabel}` : "of all time"}
+          </CardDescription>
+        </div>
+        <RankingToolbar
+          sort={sort}
+          sorts={SONG_SORTS}
+          onSortChange={(value) => {
+            setSort(value);
+            setPaging({ range, offset: 0 });
+          }}
+          limit={limit}
+          onLimitChange={(value) => {
+            setLimit(value);
+            setPaging({ range, offset: 0 });
+          }}
+        />
       </CardHeader>
       <CardContent>
-        <div className="space-y-3">
-          {topSongs.slice(0, 10).map((song, index) => (
-            <div
-              key={
-                song.key ||
-                song.youtubeId ||
-                `${song.artist}-${song.title}-${index}`
-              }
-              className="group flex items-center space-x-3 p-2 rounded-lg hover:bg-muted/50 transition-colors"
+        {songs.length > 0 ? (
+          <>
+            <Table
+              className={cn("transition-opacity", isLoading && "opacity-60")}
             >
-              <div
-                className={`flex items-center justify-center w-7 h-7 rounded-full text-sm font-bold ${
-                  index === 0
-                    ? "bg-foreground text-background"
-                    : index === 1
-                      ? "bg-muted-foreground text-background"
-                      : index === 2
-                        ? "bg-muted-foreground/80 text-background"
-                        : "bg-muted text-foreground"
-                }`}
-              >
-                {index + 1}
-              </div>
-
-              <Avatar className="h-10 w-10 rounded-md">
-                {song.thumbnail ? (
-                  <AvatarImage
-                    src={song.thumbnail}
-                    alt={song.title}
-                    className="object-cover"
-                  />
-                ) : null}
-                <AvatarFallback
-                  className={`rounded-md ${
-                    index === 0
-                      ? "bg-foreground text-background"
-                      : index === 1
-                        ? "bg-muted-foreground text-background"
-                        : index === 2
-                          ? "bg-muted-foreground/80 text-background"
-                          : "bg-muted text-foreground"
-                  }`}
-                >
-                  <Music className="h-5 w-5" />
-                </AvatarFallback>
-              </Avatar>
-
-              <div className="flex-1 space-y-1 min-w-0">
-                <div className="flex items-center justify-between">
-                  <div className="space-y-0.5 flex-1 min-w-0">
-                    <p className="font-medium leading-none truncate text-sm">
-                      {song.title}
-                    </p>
-                    <p className="text-xs text-muted-foreground truncate">
-                      {song.artist}
-                    </p>
-                  </div>
-                  <div className="text-right space-y-0.5 ml-3">
-                    <div className="flex items-center gap-1 text-xs font-medium">
-                      <Play className="h-3 w-3" />
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>Song</TableHead>
+                  <TableHead className="text-right">Plays</TableHead>
+                  <TableHead className="text-right">Time listened</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {songs.map((song, index) => (
+                  <TableRow
+                    key={
+                      song.key ||
+                      song.youtubeId ||
+                      `${song.artist}-${song.title}-${index}`
+                    }
+                  >
+                    <TableCell className="font-medium text-muted-foreground tabular-nums">
+                      {firstRank + index}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-3 min-w-0">
+                        <Avatar className="h-9 w-9 rounded-md">
+                          {song.thumbnail ? (
+                            <AvatarImage
+                              src={song.thumbnail}
+                              alt={song.title}
+                              className="object-cover"
+                            />
+                          ) : null}
+                          <AvatarFallback className="rounded-md bg-muted">
+                            <Music className="h-4 w-4" />
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0">
+                          <Link
+                            href={getSongHref(song.key)}
+                            className="block font-medium truncate max-w-[16rem] hover:underline"
+                          >
+                            {song.title}
+                          </Link>
+                          <Link
+                            href={getArtistHref(song.artist)}
+                            className="block text-xs text-muted-foreground truncate max-w-[16rem] hover:underline"
+                          >
+                            {song.artist}
+                          </Link>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
                       {formatNumber(song.playCount || 0)}
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      {formatDuration(song.duration || 0)}
-                    </div>
-                  </div>
-                </div>
-
-                <Progress
-                  value={((song.playCount || 0) / maxPlayCount) * 100}
-                  className="h-1.5"
-                />
-              </div>
-            </div>
-          ))}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {formatDuration(song.totalDuration || 0)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
 
-          {topSongs.length === 0 && (
-            <div className="text-center py-8 text-muted-foreground">
-              <Music className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No song data available yet.</p>
-              <p className="text-xs mt-1">
-                Upload your music history to see your top tracks!
-              </p>
-            </div>
-          )}
-        </div>
+            {page && (
+              <RankingPagination
+                total={page.total}
+                limit={limit}
+                offset={offset}
+                onOffsetChange={(value) => setPaging({ range, offset: value })}
+              />
+            )}
+          </>
+        ) : (
+          <div className="text-center py-8 text-muted-foreground">
+            <Music className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No song data available yet.</p>
+            <p className="text-xs mt-1">
+              Upload your music history to see your top tracks!
+            </p>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
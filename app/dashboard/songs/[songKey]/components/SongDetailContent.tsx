@@ -0,0 +1,408 @@
+"use client";
+
+import {
+  ArrowLeft,
+  BarChart3,
+  CalendarClock,
+  CalendarPlus,
+  Clock,
+  ExternalLink,
+  Music,
+  TrendingUp,
+} from "lucide-react";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { CardLoading } from "@/components/ui/loading";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { getArtistHref } from "@/lib/stats/rankings";
+import type { ApiResponse, SongDetail } from "@/lib/types/database";
+
+interface SongDetailContentProps {
+  songKey: string;
+}
+
+const chartConfig = {
+  playCount: {
+    label: "Plays",
+    color: "var(--chart-1)",
+  },
+  rank: {
+    label: "Rank",
+    color: "var(--chart-2)",
+  },
+} satisfies ChartConfig;
+
+function formatDuration(seconds: number) {
+  if (!seconds || !Number.isFinite(seconds) || seconds < 0) {
+    return "0m";
+  }
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+}
+
+function formatNumber(num: number) {
+  return new Intl.NumberFormat().format(num);
+}
+
+function formatMonth(month: string, style: "short" | "long" = "short") {
+  // Months are already in the user's time zone
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, {
+    month: style,
+    year: style === "short" ? "2-digit" : "numeric",
+    timeZone: "UTC",
+  });
+}
+
+export function SongDetailContent({ songKey }: SongDetailContentProps) {
+  const [detail, setDetail] = useState<SongDetail | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { timeZone, isLoading: timeZoneLoading } = useTimeZone();
+
+  useEffect(() => {
+    // Wait for the profile so months aren't counted in the wrong zone first
+    if (timeZoneLoading) return;
+
+    let cancelled = false;
+
+    async function fetchSong() {
+      setIsLoading(true);
+      try {
+        const params = new URLSearchParams({ timeZone });
+        const response = await fetch(
+          `/api/stats/songs/${encodeURIComponent(songKey)}?${params}`,
+        );
+        if (!response.ok) {
+          if (response.status === 404) {
+            if (!cancelled) setDetail(null);
+            return;
+          }
+          throw new Error("Failed to fetch song");
+        }
+        const data: ApiResponse<SongDetail> = await response.json();
+        if (!cancelled) setDetail(data.data ?? null);
+      } catch (error) {
+        console.error("Error fetching song:", error);
+        if (!cancelled) setDetail(null);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    fetchSong();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [songKey, timeZone, timeZoneLoading]);
+
+  const formatDate = (date: string | Date) =>
+    new Intl.DateTimeFormat(undefined, {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone,
+    }).format(new Date(date));
+
+  const backButton = (
+    <Button variant="ghost" size="sm" asChild className="-ml-2 mb-6">
+      <Link href="/dashboard">
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to dashboard
+      </Link>
+    </Button>
+  );
+
+  if (isLoading) {
+    return <CardLoading text="Loading song..." height="16rem" />;
+  }
+
+  if (!detail) {
+    return (
+      <div>
+        {backButton}
+        <Card className="border-dashed border-2">
+          <CardContent className="text-center py-12 text-muted-foreground">
+            <Music className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>You haven't listened to this song yet.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const peakMonth = detail.timeline.reduce(
+    (best, month) => (month.playCount > best.playCount ? month : best),
+    detail.timeline[0],
+  );
+  const bestRank = detail.timeline.reduce<
+    (typeof detail.timeline)[number] | undefined
+  >(
+    (best, month) =>
+      month.rank !== undefined && (!best?.rank || month.rank < best.rank)
+        ? month
+        : best,
+    undefined,
+  );
+  const rankTimeline = detail.timeline.map((month) => ({
+    ...month,
+    // Leave gaps in the line for months without plays
+    rank: month.rank ?? null,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        {backButton}
+        <div className="flex flex-wrap items-center gap-5">
+          <Avatar className="h-24 w-24 rounded-xl">
+            {detail.thumbnail ? (
+              <AvatarImage
+                src={detail.thumbnail}
+                alt={detail.title}
+                className="object-cover"
+              />
+            ) : null}
+            <AvatarFallback className="rounded-xl bg-muted">
+              <Music className="h-8 w-8" />
+            </AvatarFallback>
+          </Avatar>
+          <div className="space-y-1 min-w-0 flex-1">
+            <h1 className="text-3xl font-bold tracking-tight truncate">
+              {detail.title}
+            </h1>
+            <p className="text-muted-foreground">
+              <Link
+                href={getArtistHref(detail.artist)}
+                className="font-medium text-foreground hover:underline"
+              >
+                {detail.artist}
+              </Link>
+              {detail.releaseDate && (
+                <>
+                  {" "}
+                  · Released{" "}
+                  {new Date(detail.releaseDate).toLocaleDateString(undefined, {
+                    month: "short",
+                    day: "numeric",
+                    year: "numeric",
+                  })}
+                </>
+              )}
+            </p>
+          </div>
+          {detail.youtubeId && (
+            <Button variant="outline" asChild>
+              <a
+                href={`https://music.youtube.com/watch?v=${detail.youtubeId}`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Open in YouTube Music
+              </a>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Plays</CardTitle>
+            <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center">
+              <BarChart3 className="h-4 w-4 text-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatNumber(detail.playCount || 0)}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Time Listened</CardTitle>
+            <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center">
+              <Clock className="h-4 w-4 text-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatNumber(Math.round((detail.totalDuration || 0) / 60))} min
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {formatDuration(detail.totalDuration || 0)}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">First Played</CardTitle>
+            <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center">
+              <CalendarPlus className="h-4 w-4 text-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatDate(detail.firstPlayed)}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Last Played</CardTitle>
+            <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center">
+              <CalendarClock className="h-4 w-4 text-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {formatDate(detail.lastPlayed)}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5" />
+              Plays per Month
+            </CardTitle>
+            <CardDescription>
+              Most played in {formatMonth(peakMonth.month, "long")} with{" "}
+              {formatNumber(peakMonth.playCount)} plays
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer
+              config={chartConfig}
+              className="aspect-auto h-64 w-full"
+            >
+              <BarChart data={detail.timeline} margin={{ left: 0, right: 4 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="month"
+                  tickFormatter={(month: string) => formatMonth(month)}
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={24}
+                />
+                <YAxis
+                  allowDecimals={false}
+                  tickLine={false}
+                  axisLine={false}
+                  width={36}
+                />
+                <ChartTooltip
+                  cursor={false}
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(month: string) =>
+                        formatMonth(month, "long")
+                      }
+                    />
+                  }
+                />
+                <Bar
+                  dataKey="playCount"
+                  fill="var(--color-playCount)"
+                  radius={[3, 3, 0, 0]}
+                />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Rank Over Time
+            </CardTitle>
+            <CardDescription>
+              {bestRank?.rank
+                ? `Peaked at #${bestRank.rank} of your songs in ${formatMonth(bestRank.month, "long")}`
+                : "Where it ranked among your songs each month"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer
+              config={chartConfig}
+              className="aspect-auto h-64 w-full"
+            >
+              <LineChart data={rankTimeline} margin={{ left: 0, right: 4 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="month"
+                  tickFormatter={(month: string) => formatMonth(month)}
+                  tickLine={false}
+                  axisLine={false}
+                  minTickGap={24}
+                />
+                <YAxis
+                  reversed
+                  allowDecimals={false}
+                  domain={[1, "dataMax"]}
+                  tickFormatter={(rank: number) => `#${rank}`}
+                  tickLine={false}
+                  axisLine={false}
+                  width={44}
+                />
+                <ChartTooltip
+                  cursor={false}
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(month: string) =>
+                        formatMonth(month, "long")
+                      }
+                    />
+                  }
+                />
+                <Line
+                  dataKey="rank"
+                  type="monotone"
+                  stroke="var(--color-rank)"
+                  strokeWidth={2}
+                  dot={{ r: 3 }}
+                />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
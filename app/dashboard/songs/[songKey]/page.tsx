@@ -0,0 +1,34 @@
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import { auth } from "@/lib/auth/config";
+import { decodeRouteParam } from "@/lib/stats/rankings";
+import { SongDetailContent } from "./components/SongDetailContent";
+
+interface SongPageProps {
+  params: Promise<{ songKey: string }>;
+}
+
+export const metadata = {
+  title: "Song History | YTMusic Stats",
+  description: "Your YouTube Music listening history with a song",
+};
+
+export default async function SongPage({ params }: SongPageProps) {
+  const songKey = decodeRouteParam((await params).songKey);
+
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user) {
+    redirect("/auth/signin");
+  }
+
+  return (
+    <div className="min-h-screen pt-20">
+      <div className="container mx-auto px-4 py-8">
+        <SongDetailContent songKey={songKey} />
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { Info, Play, Upload } from "lucide-react";
 import { motion, type Variants } from "motion/react";
+import { DeleteHistory } from "@/app/upload/components/DeleteHistory";
 import { UploadArea } from "@/app/upload/components/upload-area";
 import {
   Card,
@@ -75,15 +76,17 @@ export function UploadContent({ userName }: UploadContentProps) {
               <div className="h-7 w-7 sm:h-8 sm:w-8 rounded-full bg-muted flex items-center justify-center shrink-0">
                 <Info className="h-3 w-3 sm:h-4 sm:w-4 text-foreground" />
               </div>
-              <div>
+              <div className="flex-1">
                 <p className="font-medium mb-1 text-sm sm:text-base">
-                  Data Replacement Policy
+                  Cumulative History
                 </p>
                 <p className="text-xs sm:text-sm text-muted-foreground">
-                  New uploads automatically replace existing data to ensure you
-                  always see your most current statistics.
+                  New uploads are merged with your previous ones. Plays you've
+                  already uploaded are skipped, so history that Google no longer
+                  exports is kept.
                 </p>
               </div>
+              <DeleteHistory />
             </div>
             <UploadArea />
           </CardContent>
@@ -127,7 +130,7 @@ export function UploadContent({ userName }: UploadContentProps) {
               step: "3",
               title: "Choose Format",
               description:
-                "Select JSON format and create your export. This may take some time.",
+                "Keep the default HTML format or pick JSON, then create your export. This may take some time.",
               link: null,
               url: null,
             },
@@ -135,7 +138,7 @@ export function UploadContent({ userName }: UploadContentProps) {
               step: "4",
               title: "Download & Upload",
               description:
-                "Once ready, download the files and upload the watch-history.json here",
+                "Once ready, download the archive and upload the .zip or .tgz here - no need to extract it",
               link: null,
               url: null,
             },
@@ -244,11 +247,11 @@ export function UploadContent({ userName }: UploadContentProps) {
                 </h4>
                 <ul className="text-xs sm:text-sm text-muted-foreground space-y-1">
                   <li>
-                    • Upload the 'watch-history.json' file from your Google
-                    Takeout
+                    • Upload the Takeout .zip/.tgz as-is, or the watch-history
+                    file from inside it
                   </li>
-                  <li>• File should be in JSON format (not HTML)</li>
-                  <li>• Maximum file size: 100MB</li>
+                  <li>• Both the JSON and HTML export formats work</li>
+                  <li>• Maximum file size: 4GB</li>
                 </ul>
               </div>
               <div className="space-y-2">
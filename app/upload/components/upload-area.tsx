@@ -3,34 +3,46 @@
 import { Check, File, Loader2, Upload, X } from "lucide-react";
 import { AnimatePresence, motion } from "motion/react";
 import { useRouter } from "next/navigation";
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useDropzone } from "react-dropzone";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { getDeviceCapability, parseFile } from "@/lib/client/parser";
+import { useSessionGap } from "@/hooks/use-session-gap";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { getDeviceCapability } from "@/lib/client/parser";
 import {
-  calculateStats,
-  type StatsProgress,
-} from "@/lib/client/stats-calculator";
-import { type FetchProgress, fetchSongMetadata } from "@/lib/client/youtube";
-import type { ParseProgress } from "@/lib/types/database";
+  PipelineCancelledError,
+  type PipelineJob,
+  runPipeline,
+} from "@/lib/client/pipeline";
+import type {
+  FetchProgress,
+  ParseProgress,
+  StatsProgress,
+} from "@/lib/types/database";
 
 type ProcessingStage =
   | "idle"
   | "reading"
   | "parsing"
+  | "merging"
   | "fetching"
   | "calculating"
   | "saving"
   | "success"
   | "error";
 
+// Files are streamed, so large histories no longer need to fit in memory.
+// Takeout splits archives at 2GB by default, so allow a little headroom.
+const MAX_FILE_SIZE = 4 * 1024 * 1024 * 1024;
+
 const STAGE_MESSAGES: Record<ProcessingStage, string> = {
   idle: "Ready to process",
   reading: "Reading file...",
   parsing: "Parsing music entries...",
-  fetching: "Fetching song metadata...",
+  merging: "Merging with your history...",
+  fetching: "Loading song metadata...",
   calculating: "Calculating your stats...",
   saving: "Saving to your account...",
   success: "Complete!",
@@ -39,6 +51,8 @@ const STAGE_MESSAGES: Record<ProcessingStage, string> = {
 
 export function UploadArea() {
   const router = useRouter();
+  const { timeZone } = useTimeZone();
+  const { sessionGap } = useSessionGap();
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [stage, setStage] = useState<ProcessingStage>("idle");
@@ -48,10 +62,17 @@ export function UploadArea() {
     totalSongs: number;
     totalArtists: number;
     totalListens: number;
+    newPlays: number;
   } | null>(null);
   const [metadataStats, setMetadataStats] = useState<FetchProgress | null>(
     null,
   );
+  const jobRef = useRef<PipelineJob | null>(null);
+
+  // Stop the worker if the user navigates away mid-processing
+  useEffect(() => {
+    return () => jobRef.current?.cancel();
+  }, []);
 
   const processFile = useCallback(
     async (file: File) => {
@@ -63,38 +84,14 @@ export function UploadArea() {
       console.log(`Processing on ${capability} capability device`);
 
       try {
-        // Step 1: Parse the file
-        setStage("parsing");
-        const parseResult = await parseFile(
-          file,
-          (parseProgress: ParseProgress) => {
+        // Steps 1-3: Parse, fetch metadata and calculate stats in a worker
+        const job = runPipeline(file, timeZone, sessionGap, {
+          onStage: setStage,
+          onParseProgress: (parseProgress: ParseProgress) => {
             // Map parse progress to 0-50%
-            const mappedProgress = Math.round(parseProgress.progress * 0.5);
-            setProgress(mappedProgress);
+            setProgress(Math.round(parseProgress.progress * 0.5));
           },
-        );
-
-        if (parseResult.error && parseResult.entries.length === 0) {
-          throw new Error(parseResult.error);
-        }
-
-        if (parseResult.entries.length === 0) {
-          throw new Error(
-            "No YouTube Music entries found in this file. Make sure you're uploading your YouTube Music watch history.",
-          );
-        }
-
-        console.log(
-          `Parsed ${parseResult.entries.length} music entries from ${parseResult.totalEntries} total`,
-        );
-
-        // Step 2: Fetch song metadata (duration, cleaned artist names)
-        setStage("fetching");
-        setProgress(55);
-
-        const metadata = await fetchSongMetadata(
-          parseResult.entries,
-          (metaProgress) => {
+          onFetchProgress: (metaProgress: FetchProgress) => {
             setMetadataStats(metaProgress);
             // Map metadata progress to 50-70%
             const percent =
@@ -103,21 +100,31 @@ export function UploadArea() {
                 : 100;
             setProgress(50 + Math.round(percent * 0.2));
           },
-        );
-
-        console.log(`Fetched metadata for ${metadata.size} unique songs`);
-
-        // Step 3: Calculate statistics with real durations
-        setStage("calculating");
-        const stats = await calculateStats(
-          parseResult.entries,
-          (statsProgress: StatsProgress) => {
+          onStatsProgress: (statsProgress: StatsProgress) => {
             // Map stats progress to 70-90%
-            const mappedProgress =
-              70 + Math.round(statsProgress.progress * 0.2);
-            setProgress(mappedProgress);
+            setProgress(70 + Math.round(statsProgress.progress * 0.2));
           },
-          metadata, // Pass metadata for accurate durations
+        });
+        jobRef.current = job;
+
+        const {
+          stats,
+          totalEntries,
+          musicEntries,
+          newPlays,
+          historyPlays,
+          metadataCount,
+          pendingVideoIds,
+        } = await job.result;
+
+        console.log(
+          `Parsed ${musicEntries} music entries from ${totalEntries} total`,
+        );
+        console.log(
+          `Added ${newPlays} new plays, ${historyPlays} plays in history`,
+        );
+        console.log(
+          `Found cached metadata for ${metadataCount} unique songs, ${pendingVideoIds.length} left to look up`,
         );
 
         // Show preview
@@ -125,6 +132,7 @@ export function UploadArea() {
           totalSongs: stats.totalSongs,
           totalArtists: stats.totalArtists,
           totalListens: stats.totalListens,
+          newPlays,
         });
 
         console.log("Stats calculated:", {
@@ -150,6 +158,25 @@ export function UploadArea() {
           throw new Error(errorData.error || "Failed to save stats");
         }
 
+        // Step 5: Look the uncached songs up in the background - the
+        // dashboard shows the stats saved above until the job is done
+        if (pendingVideoIds.length > 0) {
+          const enrichResponse = await fetch("/api/enrichment", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ videoIds: pendingVideoIds }),
+          });
+
+          if (!enrichResponse.ok) {
+            const errorData = await enrichResponse.json().catch(() => ({}));
+            toast.warning(errorData.error || "Couldn't look up song details", {
+              description: `${pendingVideoIds.length.toLocaleString()} songs use estimated durations. Upload the file again later to fill them in.`,
+            });
+          }
+        }
+
         setProgress(100);
         setStage("success");
 
@@ -162,6 +189,15 @@ export function UploadArea() {
           router.push("/dashboard");
         }, 1500);
       } catch (error) {
+        if (error instanceof PipelineCancelledError) {
+          setStage("idle");
+          setProgress(0);
+          setUploadedFile(null);
+          setMetadataStats(null);
+          toast.info("Processing cancelled");
+          return;
+        }
+
         console.error("Processing error:", error);
         setStage("error");
         const message =
@@ -174,10 +210,11 @@ export function UploadArea() {
           description: message,
         });
       } finally {
+        jobRef.current = null;
         setIsProcessing(false);
       }
     },
-    [router],
+    [router, timeZone, sessionGap],
   );
 
   const onDrop = useCallback(
@@ -200,12 +237,21 @@ export function UploadArea() {
       onDrop,
       accept: {
         "application/json": [".json"],
+        "text/html": [".html", ".htm"],
+        "application/zip": [".zip"],
+        "application/x-zip-compressed": [".zip"],
+        "application/gzip": [".tgz", ".tar.gz"],
+        "application/x-gzip": [".tgz", ".tar.gz"],
       },
       maxFiles: 1,
-      maxSize: 10 * 1024 * 1024,
+      maxSize: MAX_FILE_SIZE,
       disabled: isProcessing || stage === "success",
     });
 
+  const cancelProcessing = useCallback(() => {
+    jobRef.current?.cancel();
+  }, []);
+
   const resetUpload = useCallback(() => {
     setUploadedFile(null);
     setStage("idle");
@@ -259,14 +305,14 @@ export function UploadArea() {
             {stage === "idle" && !isDragActive && !isDragReject && (
               <div>
                 <p className="text-base sm:text-lg font-medium mb-2">
-                  Drag & drop your JSON file here
+                  Drag & drop your Takeout archive or history file here
                 </p>
                 <p className="text-xs sm:text-sm text-muted-foreground mb-3 sm:mb-4">
                   or click to browse files from your computer
                 </p>
                 <div className="flex flex-col sm:flex-row items-center justify-center gap-2 sm:gap-4 text-xs text-muted-foreground">
-                  <span>✓ JSON files only</span>
-                  <span>✓ Max 10MB</span>
+                  <span>✓ .zip, .tgz, .json or .html</span>
+                  <span>✓ Max 4GB</span>
                   <span>✓ Processed locally</span>
                 </div>
               </div>
@@ -289,7 +335,8 @@ export function UploadArea() {
                   Invalid file type
                 </p>
                 <p className="text-xs sm:text-sm text-destructive/80 mt-1">
-                  Please upload a proper JSON file from your Google Takeout
+                  Please upload your Google Takeout archive or its
+                  watch-history.json
                 </p>
               </div>
             )}
@@ -301,6 +348,8 @@ export function UploadArea() {
                 </p>
                 <p className="text-xs sm:text-sm text-muted-foreground mt-1">
                   {stage === "parsing" && "Extracting YouTube Music entries..."}
+                  {stage === "merging" &&
+                    "Skipping plays you've already uploaded..."}
                   {stage === "fetching" && metadataStats && (
                     <span className="flex flex-col items-center gap-1">
                       <span>
@@ -313,19 +362,12 @@ export function UploadArea() {
                         {metadataStats.cached > 0 && (
                           <> • {metadataStats.cached.toLocaleString()} cached</>
                         )}
-                        {metadataStats.fetched > 0 && (
-                          <>
-                            {" "}
-                            • {metadataStats.fetched.toLocaleString()} from
-                            YouTube
-                          </>
-                        )}
                       </span>
                     </span>
                   )}
                   {stage === "fetching" &&
                     !metadataStats &&
-                    "Preparing to fetch song metadata..."}
+                    "Checking which songs we already know..."}
                   {stage === "calculating" &&
                     "Analyzing your listening patterns..."}
                   {stage === "saving" && "Almost done..."}
@@ -353,6 +395,16 @@ export function UploadArea() {
                         {statsPreview.totalListens.toLocaleString()}
                       </strong>{" "}
                       plays
+                      {statsPreview.newPlays < statsPreview.totalListens && (
+                        <>
+                          {" "}
+                          (
+                          <strong>
+                            {statsPreview.newPlays.toLocaleString()}
+                          </strong>{" "}
+                          new)
+                        </>
+                      )}
                     </p>
                     <p className="text-xs sm:text-sm text-muted-foreground">
                       <strong>
@@ -406,6 +458,17 @@ export function UploadArea() {
             </div>
 
             <div className="flex items-center gap-2 w-full sm:w-auto">
+              {isProcessing && stage !== "saving" && (
+                <Button
+                  onClick={cancelProcessing}
+                  variant="outline"
+                  size="sm"
+                  className="w-full sm:w-auto min-h-11 sm:min-h-9"
+                >
+                  Cancel
+                </Button>
+              )}
+
               {stage === "error" && (
                 <Button
                   onClick={resetUpload}
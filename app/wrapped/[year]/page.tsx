@@ -0,0 +1,61 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound, redirect } from "next/navigation";
+import { auth } from "@/lib/auth/config";
+import { countPlays } from "@/lib/services/plays";
+import { WrappedExperience } from "../components/WrappedExperience";
+
+interface WrappedYearPageProps {
+  params: Promise<{ year: string }>;
+}
+
+function parseYear(value: string): number | null {
+  return /^\d{4}$/.test(value) ? Number.parseInt(value, 10) : null;
+}
+
+export async function generateMetadata({
+  params,
+}: WrappedYearPageProps): Promise<Metadata> {
+  const year = parseYear((await params).year);
+
+  if (year === null) {
+    return { title: "Wrapped | YTMusic Stats" };
+  }
+
+  return {
+    title: `Your ${year} Wrapped | YTMusic Stats`,
+    description: `Discover your ${year} YouTube Music listening journey`,
+  };
+}
+
+export default async function WrappedYearPage({
+  params,
+}: WrappedYearPageProps) {
+  const year = parseYear((await params).year);
+
+  if (year === null) {
+    notFound();
+  }
+
+  const session = await auth.api.getSession({
+    headers: await headers(),
+  });
+
+  if (!session?.user) {
+    redirect("/auth/signin");
+  }
+
+  // Histories uploaded before plays were stored only have all-time stats,
+  // which aren't any one year's
+  if ((await countPlays(session.user.id)) === 0) {
+    redirect("/wrapped");
+  }
+
+  return (
+    <WrappedExperience
+      userId={session.user.id}
+      userName={session.user.name || "Music Lover"}
+      year={year}
+    />
+  );
+}
@@ -6,19 +6,32 @@ import Link from "next/link";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { CardLoading } from "@/components/ui/loading";
-import type { ApiResponse, IUserStats } from "@/lib/types/database";
+import { rangeToSearchParams } from "@/lib/stats/range";
+import type {
+  ApiResponse,
+  IUserStats,
+  ListeningYear,
+} from "@/lib/types/database";
 import { ProgressBar } from "./ProgressBar";
 import { FunFactsSlide } from "./slides/FunFactsSlide";
+import { GenreSlide } from "./slides/GenreSlide";
 import { IntroSlide } from "./slides/IntroSlide";
 import { ListeningTimeSlide } from "./slides/ListeningTimeSlide";
 import { MusicEraSlide } from "./slides/MusicEraSlide";
 import { SummarySlide } from "./slides/SummarySlide";
 import { TopArtistSlide } from "./slides/TopArtistSlide";
 import { TopSongSlide } from "./slides/TopSongSlide";
+import { YearPicker } from "./YearPicker";
 
 interface WrappedExperienceProps {
   userId: string;
   userName: string;
+  /**
+   * Calendar year the Wrapped covers. Left out for histories uploaded
+   * before plays were stored, which only have the all-time stats saved by
+   * the last upload.
+   */
+  year?: number;
 }
 
 const AUTOPLAY_DURATION = 6000; // 6 seconds per slide
@@ -26,26 +39,68 @@ const AUTOPLAY_DURATION = 6000; // 6 seconds per slide
 export function WrappedExperience({
   userId: _userId,
   userName,
+  year,
 }: WrappedExperienceProps) {
   const [stats, setStats] = useState<IUserStats | null>(null);
+  const [previousStats, setPreviousStats] = useState<IUserStats | null>(null);
+  const [years, setYears] = useState<ListeningYear[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentSlide, setCurrentSlide] = useState(0);
   const [direction, setDirection] = useState(0);
   const [isPaused, setIsPaused] = useState(false);
   const autoplayTimerRef = useRef<NodeJS.Timeout | null>(null);
 
-  const totalSlides = 7;
+  const totalSlides = 8;
 
-  // Fetch user stats
+  // Fetch the year's stats, and the previous year's to compare against
   useEffect(() => {
+    async function fetchYearStats(
+      statsYear: number,
+    ): Promise<IUserStats | null> {
+      const params = rangeToSearchParams({ type: "year", year: statsYear });
+      const response = await fetch(`/api/stats?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch stats");
+      }
+      const data: ApiResponse<IUserStats> = await response.json();
+      return data.data?.totalListens ? data.data : null;
+    }
+
+    async function fetchSavedStats(): Promise<IUserStats | null> {
+      const response = await fetch("/api/stats");
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error("Failed to fetch stats");
+      }
+      const data: ApiResponse<IUserStats> = await response.json();
+      return data.data?.totalListens ? data.data : null;
+    }
+
     async function fetchStats() {
       try {
-        const response = await fetch("/api/stats");
+        if (year === undefined) {
+          setStats(await fetchSavedStats());
+          return;
+        }
+
+        const response = await fetch("/api/stats/years");
         if (!response.ok) {
-          throw new Error("Failed to fetch stats");
+          throw new Error("Failed to fetch listening years");
         }
-        const data: ApiResponse<IUserStats> = await response.json();
-        setStats(data.data || null);
+        const data: ApiResponse<ListeningYear[]> = await response.json();
+        const listeningYears = data.data || [];
+        setYears(listeningYears);
+
+        const hasPreviousYear = listeningYears.some(
+          (entry) => entry.year === year - 1,
+        );
+        const [yearStats, lastYearStats] = await Promise.all([
+          fetchYearStats(year),
+          hasPreviousYear ? fetchYearStats(year - 1) : null,
+        ]);
+
+        setStats(yearStats);
+        setPreviousStats(lastYearStats);
       } catch (error) {
         console.error("Error fetching stats:", error);
         setStats(null);
@@ -55,7 +110,7 @@ export function WrappedExperience({
     }
 
     fetchStats();
-  }, []);
+  }, [year]);
 
   const goToSlide = useCallback(
     (index: number) => {
@@ -129,18 +184,30 @@ export function WrappedExperience({
   }
 
   if (!stats) {
+    const hasHistory = year !== undefined && years.length > 0;
+
     return (
       <div className="min-h-screen flex items-center justify-center bg-black p-4">
         <div className="text-center text-white space-y-4">
-          <h1 className="text-3xl font-bold">No Data Yet</h1>
+          <h1 className="text-3xl font-bold">
+            {hasHistory ? `Nothing Played in ${year}` : "No Data Yet"}
+          </h1>
           <p className="text-white/80">
-            Upload your YouTube Music history to see your Wrapped!
+            {hasHistory
+              ? "Pick another year to relive your music."
+              : "Upload your YouTube Music history to see your Wrapped!"}
           </p>
-          <Link href="/upload">
-            <Button variant="secondary" size="lg">
-              Upload Data
-            </Button>
-          </Link>
+          {hasHistory ? (
+            <div className="flex justify-center">
+              <YearPicker year={year} years={years} />
+            </div>
+          ) : (
+            <Link href="/upload">
+              <Button variant="secondary" size="lg">
+                Upload Data
+              </Button>
+            </Link>
+          )}
         </div>
       </div>
     );
@@ -170,19 +237,39 @@ export function WrappedExperience({
   const renderSlide = () => {
     switch (currentSlide) {
       case 0:
-        return <IntroSlide userName={userName} stats={stats} />;
+        return <IntroSlide userName={userName} stats={stats} year={year} />;
       case 1:
-        return <ListeningTimeSlide stats={stats} />;
+        return (
+          <ListeningTimeSlide
+            stats={stats}
+            previousStats={previousStats}
+            year={year}
+          />
+        );
       case 2:
-        return <TopArtistSlide stats={stats} />;
+        return (
+          <TopArtistSlide
+            stats={stats}
+            previousStats={previousStats}
+            year={year}
+          />
+        );
       case 3:
-        return <TopSongSlide stats={stats} />;
+        return (
+          <TopSongSlide
+            stats={stats}
+            previousStats={previousStats}
+            year={year}
+          />
+        );
       case 4:
         return <MusicEraSlide stats={stats} />;
       case 5:
-        return <FunFactsSlide stats={stats} />;
+        return <GenreSlide stats={stats} />;
       case 6:
-        return <SummarySlide stats={stats} userName={userName} />;
+        return <FunFactsSlide stats={stats} />;
+      case 7:
+        return <SummarySlide stats={stats} userName={userName} year={year} />;
       default:
         return null;
     }
@@ -199,6 +286,20 @@ export function WrappedExperience({
         isPaused={isPaused}
       />
 
+      {/* Year picker, or why there isn't one */}
+      <div className="absolute top-12 left-4 z-50">
+        {year !== undefined ? (
+          <YearPicker year={year} years={years} />
+        ) : (
+          <Link
+            href="/upload"
+            className="inline-block rounded-full bg-white/10 hover:bg-white/20 px-3 py-1.5 text-xs text-white/80 transition-colors"
+          >
+            All time · Re-upload your history for a yearly Wrapped
+          </Link>
+        )}
+      </div>
+
       {/* Close button */}
       <Link
         href="/dashboard"
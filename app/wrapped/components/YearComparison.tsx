@@ -0,0 +1,74 @@
+"use client";
+
+import { Repeat, TrendingDown, TrendingUp } from "lucide-react";
+import { motion } from "motion/react";
+
+interface YearComparisonProps {
+  current: number;
+  /** Same measure for the previous year, hidden when missing */
+  previous?: number;
+  previousYear: number;
+  delay?: number;
+}
+
+export function YearComparison({
+  current,
+  previous,
+  previousYear,
+  delay = 0,
+}: YearComparisonProps) {
+  if (!previous) return null;
+
+  const change = Math.round(((current - previous) / previous) * 100);
+  const Icon = change >= 0 ? TrendingUp : TrendingDown;
+
+  return (
+    <motion.span
+      className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-white/5 border border-white/10 text-sm text-white/70"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+    >
+      <Icon className="h-3.5 w-3.5" />
+      {change === 0
+        ? `Same as ${previousYear}`
+        : `${change > 0 ? "+" : ""}${change}% vs ${previousYear}`}
+    </motion.span>
+  );
+}
+
+interface RankComparisonProps {
+  /** Position in the previous year's top list (0-based), -1 if absent */
+  previousRank: number;
+  previousYear: number;
+  delay?: number;
+}
+
+export function RankComparison({
+  previousRank,
+  previousYear,
+  delay = 0,
+}: RankComparisonProps) {
+  const label =
+    previousRank === 0
+      ? `#1 again, just like ${previousYear}`
+      : previousRank > 0
+        ? `Up from #${previousRank + 1} in ${previousYear}`
+        : `New to your top 10 since ${previousYear}`;
+
+  return (
+    <motion.span
+      className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-white/5 border border-white/10 text-sm text-white/70"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay }}
+    >
+      {previousRank === 0 ? (
+        <Repeat className="h-3.5 w-3.5" />
+      ) : (
+        <TrendingUp className="h-3.5 w-3.5" />
+      )}
+      {label}
+    </motion.span>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ListeningYear } from "@/lib/types/database";
+
+interface YearPickerProps {
+  year: number;
+  years: ListeningYear[];
+}
+
+export function YearPicker({ year, years }: YearPickerProps) {
+  const router = useRouter();
+
+  // Keep the current year selectable even if it has no plays
+  const options = years.some((entry) => entry.year === year)
+    ? years
+    : [{ year, plays: 0 }, ...years].sort((a, b) => b.year - a.year);
+
+  return (
+    <Select
+      value={String(year)}
+      onValueChange={(value) => router.push(`/wrapped/${value}`)}
+    >
+      <SelectTrigger
+        size="sm"
+        className="rounded-full bg-white/10 hover:bg-white/20 border-white/10 text-white"
+      >
+        <SelectValue>{year}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.year} value={String(option.year)}>
+            {option.year}
+            {option.plays > 0 && (
+              <span className="text-muted-foreground text-xs">
+                {option.plays.toLocaleString()} plays
+              </span>
+            )}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -8,6 +8,7 @@ import {
   Play,
   Sparkles,
   TrendingUp,
+  Zap,
 } from "lucide-react";
 import { motion } from "motion/react";
 import type { IUserStats } from "@/lib/types/database";
@@ -82,6 +83,8 @@ export function FunFactsSlide({ stats }: FunFactsSlideProps) {
     return new Date(date).toLocaleDateString("en-US", {
       month: "short",
       day: "numeric",
+      // Days are stored as midnight UTC
+      timeZone: "UTC",
     });
   };
 
@@ -100,6 +103,15 @@ export function FunFactsSlide({ stats }: FunFactsSlideProps) {
       description: `${formatDuration(stats.longestListenDayDuration || 0)} of music`,
       show: !!stats.longestListenDay,
     },
+    {
+      icon: <Zap className="h-4 w-4 text-white/70" />,
+      title: "Longest streak",
+      value: `${stats.longestStreak?.days || 0} days in a row`,
+      description: stats.longestStreak
+        ? `${formatDate(stats.longestStreak.start)} – ${formatDate(stats.longestStreak.end)}`
+        : "",
+      show: (stats.longestStreak?.days || 0) > 1,
+    },
     {
       icon: <Clock className="h-4 w-4 text-white/70" />,
       title: "Daily average",
@@ -0,0 +1,104 @@
+"use client";
+
+import { Tags } from "lucide-react";
+import { motion } from "motion/react";
+import type { IUserStats } from "@/lib/types/database";
+
+interface GenreSlideProps {
+  stats: IUserStats;
+}
+
+function getGenreDescription(percentage: number): string {
+  if (percentage >= 60) return "You know exactly what you like";
+  if (percentage >= 40) return "A clear favourite, with room for more";
+  if (percentage >= 25) return "A favourite among many";
+  return "Your taste refuses to be boxed in";
+}
+
+export function GenreSlide({ stats }: GenreSlideProps) {
+  const genres = stats.genreDistribution || [];
+  const topGenre = genres[0];
+
+  if (!topGenre) {
+    return (
+      <div className="max-w-lg mx-auto text-center text-white">
+        <Tags className="h-16 w-16 mx-auto mb-4 text-white/40" />
+        <p className="text-xl text-white/60">
+          Not enough data to work out your genres
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-lg mx-auto text-center text-white relative px-4">
+      <motion.p
+        className="text-lg text-white/60 mb-2"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        Your sound was mostly
+      </motion.p>
+
+      <motion.h2
+        className="text-6xl md:text-7xl font-bold mb-4"
+        initial={{ scale: 0 }}
+        animate={{ scale: 1 }}
+        transition={{ delay: 0.2, type: "spring", stiffness: 200 }}
+      >
+        {topGenre.genre}
+      </motion.h2>
+
+      <motion.p
+        className="text-sm text-white/50 mb-8"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.5 }}
+      >
+        {topGenre.percentage}% of your plays ·{" "}
+        {getGenreDescription(topGenre.percentage)}
+      </motion.p>
+
+      {genres.length > 1 && (
+        <motion.div
+          className="space-y-2"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.7 }}
+        >
+          <p className="text-xs text-white/40 mb-3">Genre breakdown</p>
+          <div className="space-y-2 max-w-xs mx-auto">
+            {genres.slice(0, 5).map((item, index) => (
+              <motion.div
+                key={item.genre}
+                className="flex items-center gap-3"
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.8 + index * 0.1 }}
+              >
+                <span className="text-xs text-white/60 w-20 text-left truncate">
+                  {item.genre}
+                </span>
+                <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                  <motion.div
+                    className="h-full bg-white/50 rounded-full"
+                    initial={{ width: 0 }}
+                    animate={{ width: `${item.percentage}%` }}
+                    transition={{
+                      delay: 1 + index * 0.12,
+                      duration: 0.8,
+                      ease: [0.32, 0.72, 0, 1],
+                    }}
+                  />
+                </div>
+                <span className="text-xs text-white/40 w-8 text-right">
+                  {item.percentage}%
+                </span>
+              </motion.div>
+            ))}
+          </div>
+        </motion.div>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import type { IUserStats } from "@/lib/types/database";
 interface IntroSlideProps {
   userName: string;
   stats: IUserStats;
+  /** Calendar year covered, or all time when left out */
+  year?: number;
 }
 
 function AnimatedNumber({
@@ -184,8 +186,7 @@ function TypedText({ text, delay = 0 }: { text: string; delay?: number }) {
   );
 }
 
-export function IntroSlide({ userName, stats }: IntroSlideProps) {
-  const year = new Date().getFullYear();
+export function IntroSlide({ userName, stats, year }: IntroSlideProps) {
   const totalHours = Math.round((stats.totalPlaytime || 0) / 3600);
 
   return (
@@ -215,7 +216,7 @@ export function IntroSlide({ userName, stats }: IntroSlideProps) {
         className="mb-6"
       >
         <span className="inline-block px-4 py-1.5 rounded-full bg-white/5 border border-white/10 text-sm font-medium text-white/80 backdrop-blur-sm">
-          Your {year} Wrapped
+          Your {year ?? "All-Time"} Wrapped
         </span>
       </motion.div>
 
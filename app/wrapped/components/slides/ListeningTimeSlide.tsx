@@ -4,9 +4,14 @@ import { Calendar, Clock, Headphones } from "lucide-react";
 import { animate, motion, useMotionValue, useTransform } from "motion/react";
 import { useEffect, useState } from "react";
 import type { IUserStats } from "@/lib/types/database";
+import { YearComparison } from "../YearComparison";
 
 interface ListeningTimeSlideProps {
   stats: IUserStats;
+  /** Previous year's stats, when there is history for it */
+  previousStats?: IUserStats | null;
+  /** Calendar year covered, or all time when left out */
+  year?: number;
 }
 
 function AnimatedNumber({
@@ -143,7 +148,11 @@ function TimeRing({ hours }: { hours: number }) {
   );
 }
 
-export function ListeningTimeSlide({ stats }: ListeningTimeSlideProps) {
+export function ListeningTimeSlide({
+  stats,
+  previousStats,
+  year,
+}: ListeningTimeSlideProps) {
   const totalMinutes = Math.round((stats.totalPlaytime || 0) / 60);
   const totalHours = Math.round(totalMinutes / 60);
   const totalDays = (totalHours / 24).toFixed(1);
@@ -203,9 +212,20 @@ export function ListeningTimeSlide({ stats }: ListeningTimeSlideProps) {
         animate={{ opacity: 1 }}
         transition={{ delay: 0.5 }}
       >
-        listening to music
+        listening to music {year ? `in ${year}` : "of all time"}
       </motion.p>
 
+      {previousStats && year && (
+        <div className="-mt-3 mb-6">
+          <YearComparison
+            current={stats.totalPlaytime}
+            previous={previousStats.totalPlaytime}
+            previousYear={year - 1}
+            delay={0.6}
+          />
+        </div>
+      )}
+
       {/* Sound bars animation */}
       <motion.div
         initial={{ opacity: 0 }}
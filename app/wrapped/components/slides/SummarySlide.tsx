@@ -20,9 +20,12 @@ import type { IUserStats } from "@/lib/types/database";
 interface SummarySlideProps {
   stats: IUserStats;
   userName: string;
+  /** Calendar year covered, or all time when left out */
+  year?: number;
 }
 
-export function SummarySlide({ stats, userName }: SummarySlideProps) {
+export function SummarySlide({ stats, userName, year }: SummarySlideProps) {
+  const label = year ? String(year) : "All-Time";
   const cardRef = useRef<HTMLDivElement>(null);
   const cardContainerRef = useRef<HTMLDivElement>(null);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -49,7 +52,6 @@ export function SummarySlide({ stats, userName }: SummarySlideProps) {
   const topArtist = stats.topArtists?.[0];
   const topSong = stats.topSongs?.[0];
   const totalHours = Math.round((stats.totalPlaytime || 0) / 3600);
-  const year = new Date().getFullYear();
 
   const getInitials = (name: string) => {
     return name
@@ -71,7 +73,7 @@ export function SummarySlide({ stats, userName }: SummarySlideProps) {
       });
 
       const link = document.createElement("a");
-      link.download = `ytmusic-wrapped-${year}.png`;
+      link.download = `ytmusic-wrapped-${label.toLowerCase()}.png`;
       link.href = dataUrl;
       link.click();
     } catch (error) {
@@ -96,14 +98,18 @@ export function SummarySlide({ stats, userName }: SummarySlideProps) {
       const blob = await response.blob();
 
       if (navigator.share && navigator.canShare) {
-        const file = new File([blob], `ytmusic-wrapped-${year}.png`, {
-          type: "image/png",
-        });
+        const file = new File(
+          [blob],
+          `ytmusic-wrapped-${label.toLowerCase()}.png`,
+          {
+            type: "image/png",
+          },
+        );
 
         const shareData = {
           files: [file],
-          title: `My ${year} YTMusic Wrapped`,
-          text: `Check out my ${year} music stats!`,
+          title: `My ${label} YTMusic Wrapped`,
+          text: `Check out my ${year ?? "all-time"} music stats!`,
         };
 
         if (navigator.canShare(shareData)) {
@@ -129,7 +135,7 @@ export function SummarySlide({ stats, userName }: SummarySlideProps) {
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
       >
-        Your {year} Wrapped
+        Your {label} Wrapped
       </motion.h2>
 
       <motion.p
@@ -210,7 +216,7 @@ export function SummarySlide({ stats, userName }: SummarySlideProps) {
                 className="text-xs font-bold px-2 py-1 rounded-full"
                 style={{ background: "rgba(255,255,255,0.1)" }}
               >
-                {year}
+                {label}
               </span>
             </motion.div>
 
@@ -4,12 +4,21 @@ import { Clock, Crown, Music, Play } from "lucide-react";
 import { motion } from "motion/react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import type { IUserStats } from "@/lib/types/database";
+import { RankComparison } from "../YearComparison";
 
 interface TopArtistSlideProps {
   stats: IUserStats;
+  /** Previous year's stats, when there is history for it */
+  previousStats?: IUserStats | null;
+  /** Calendar year covered, or all time when left out */
+  year?: number;
 }
 
-export function TopArtistSlide({ stats }: TopArtistSlideProps) {
+export function TopArtistSlide({
+  stats,
+  previousStats,
+  year,
+}: TopArtistSlideProps) {
   const topArtist = stats.topArtists?.[0];
   const topArtists = stats.topArtists?.slice(0, 5) || [];
 
@@ -43,6 +52,11 @@ export function TopArtistSlide({ stats }: TopArtistSlideProps) {
     (topArtist.totalDuration / totalPlaytime) * 100,
   );
 
+  const previousRank =
+    previousStats?.topArtists?.findIndex(
+      (artist) => artist.name.toLowerCase() === topArtist.name.toLowerCase(),
+    ) ?? -1;
+
   return (
     <div className="max-w-lg mx-auto text-center text-white relative px-4">
       {/* Subtle pulsing rings */}
@@ -145,11 +159,18 @@ export function TopArtistSlide({ stats }: TopArtistSlideProps) {
         initial={{ opacity: 0, scale: 0.8 }}
         animate={{ opacity: 1, scale: 1 }}
         transition={{ delay: 0.4 }}
-        className="mb-6"
+        className="mb-6 flex flex-wrap justify-center gap-2"
       >
         <span className="inline-block px-3 py-1 rounded-full bg-white/5 border border-white/10 text-sm text-white/70">
           {artistPercentage}% of your listening time
         </span>
+        {previousStats && year && (
+          <RankComparison
+            previousRank={previousRank}
+            previousYear={year - 1}
+            delay={0.5}
+          />
+        )}
       </motion.div>
 
       {/* Stats grid */}
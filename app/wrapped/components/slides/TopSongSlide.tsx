@@ -4,14 +4,26 @@ import { Clock, Music2, Play, Repeat } from "lucide-react";
 import { motion } from "motion/react";
 import Image from "next/image";
 import type { IUserStats } from "@/lib/types/database";
+import { RankComparison } from "../YearComparison";
 
 interface TopSongSlideProps {
   stats: IUserStats;
+  /** Previous year's stats, when there is history for it */
+  previousStats?: IUserStats | null;
+  /** Calendar year covered, or all time when left out */
+  year?: number;
 }
 
-export function TopSongSlide({ stats }: TopSongSlideProps) {
+export function TopSongSlide({
+  stats,
+  previousStats,
+  year,
+}: TopSongSlideProps) {
   const topSong = stats.topSongs?.[0];
   const topSongs = stats.topSongs?.slice(0, 5) || [];
+  const previousRank =
+    previousStats?.topSongs?.findIndex((song) => song.key === topSong?.key) ??
+    -1;
 
   if (!topSong) {
     return (
@@ -127,6 +139,16 @@ export function TopSongSlide({ stats }: TopSongSlideProps) {
         {topSong.artist}
       </motion.p>
 
+      {previousStats && year && (
+        <div className="-mt-1 mb-4">
+          <RankComparison
+            previousRank={previousRank}
+            previousYear={year - 1}
+            delay={0.45}
+          />
+        </div>
+      )}
+
       {/* Stats row */}
       <motion.div
         className="grid grid-cols-3 gap-2 mb-6 max-w-xs mx-auto"
@@ -1,13 +1,19 @@
 import { headers } from "next/headers";
 import { redirect } from "next/navigation";
 import { auth } from "@/lib/auth/config";
+import { countPlays, getListeningYears } from "@/lib/services/plays";
+import { resolveTimeZone } from "@/lib/stats/time-zone";
 import { WrappedExperience } from "./components/WrappedExperience";
 
 export const metadata = {
-  title: "Your 2024 Wrapped | YTMusic Stats",
+  title: "Your Wrapped | YTMusic Stats",
   description: "Discover your YouTube Music listening journey",
 };
 
+/**
+ * Open the Wrapped of the most recent year with listening history, or the
+ * all-time Wrapped of a history uploaded before plays were stored
+ */
 export default async function WrappedPage() {
   const session = await auth.api.getSession({
     headers: await headers(),
@@ -17,10 +23,20 @@ export default async function WrappedPage() {
     redirect("/auth/signin");
   }
 
-  return (
-    <WrappedExperience
-      userId={session.user.id}
-      userName={session.user.name || "Music Lover"}
-    />
+  if ((await countPlays(session.user.id)) === 0) {
+    return (
+      <WrappedExperience
+        userId={session.user.id}
+        userName={session.user.name || "Music Lover"}
+      />
+    );
+  }
+
+  const years = await getListeningYears(
+    session.user.id,
+    resolveTimeZone(session.user.timeZone),
   );
+  const latestYear = years[0]?.year ?? new Date().getFullYear();
+
+  redirect(`/wrapped/${latestYear}`);
 }
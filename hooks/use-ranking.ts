@@ -0,0 +1,51 @@
+import { useEffect, useState } from "react";
+import { type RankingQuery, rankingToSearchParams } from "@/lib/stats/rankings";
+import type {
+  ApiResponse,
+  PaginatedResult,
+  StatsRange,
+} from "@/lib/types/database";
+
+/**
+ * Fetch a page of a ranked list (`/api/stats/songs` or `/api/stats/artists`)
+ */
+export function useRanking<T, TSort extends string>(
+  endpoint: string,
+  range: StatsRange,
+  timeZone: string,
+  { sort, limit, offset }: RankingQuery<TSort>,
+) {
+  const [page, setPage] = useState<PaginatedResult<T> | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchPage() {
+      setIsLoading(true);
+      try {
+        const params = rankingToSearchParams(range, { sort, limit, offset });
+        params.set("timeZone", timeZone);
+        const response = await fetch(`${endpoint}?${params}`);
+        if (!response.ok) {
+          throw new Error("Failed to fetch ranking");
+        }
+        const data: ApiResponse<PaginatedResult<T>> = await response.json();
+        if (!cancelled) setPage(data.data ?? null);
+      } catch (error) {
+        console.error("Error fetching ranking:", error);
+        if (!cancelled) setPage(null);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    fetchPage();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [endpoint, range, timeZone, sort, limit, offset]);
+
+  return { page, isLoading };
+}
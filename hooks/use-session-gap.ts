@@ -0,0 +1,33 @@
+import { useCallback } from "react";
+import { updateUser, useSession } from "@/lib/auth/client";
+import { recountStats } from "@/lib/client/recount-stats";
+import { DEFAULT_SESSION_GAP, isValidSessionGap } from "@/lib/stats/sessions";
+
+/**
+ * Minutes without plays that end a listening session
+ *
+ * Uses the gap saved on the user's profile, or the default one. Changing
+ * it recounts the saved stats.
+ */
+export function useSessionGap() {
+  const session = useSession();
+  const savedSessionGap = session.data?.user?.sessionGap;
+
+  const setSessionGap = useCallback(async (sessionGap: number) => {
+    // The dashboard reloads the stats when the profile changes
+    await recountStats({ sessionGap });
+    const { error } = await updateUser({ sessionGap });
+    if (error) {
+      throw new Error(error.message || "Failed to update session gap");
+    }
+  }, []);
+
+  return {
+    sessionGap:
+      savedSessionGap && isValidSessionGap(savedSessionGap)
+        ? savedSessionGap
+        : DEFAULT_SESSION_GAP,
+    setSessionGap,
+    isLoading: session.isPending,
+  };
+}
@@ -0,0 +1,41 @@
+import { useCallback, useEffect } from "react";
+import { updateUser, useSession } from "@/lib/auth/client";
+import { recountStats } from "@/lib/client/recount-stats";
+import { getDefaultTimeZone, resolveTimeZone } from "@/lib/stats/time-zone";
+
+/**
+ * The time zone stats are counted in
+ *
+ * Uses the zone saved on the user's profile, and saves the browser's zone
+ * there the first time a signed-in user without one shows up. Changing it
+ * recounts the saved stats.
+ */
+export function useTimeZone() {
+  const session = useSession();
+  const user = session.data?.user;
+  const savedTimeZone = user?.timeZone;
+
+  useEffect(() => {
+    if (user && !savedTimeZone) {
+      updateUser({ timeZone: getDefaultTimeZone() }).catch((error) =>
+        console.error("Error saving time zone:", error),
+      );
+    }
+  }, [user, savedTimeZone]);
+
+  const setTimeZone = useCallback(async (timeZone: string) => {
+    // Recount first, so the stats read once the profile changes are
+    // already counted the new way
+    await recountStats({ timeZone });
+    const { error } = await updateUser({ timeZone });
+    if (error) {
+      throw new Error(error.message || "Failed to update time zone");
+    }
+  }, []);
+
+  return {
+    timeZone: resolveTimeZone(savedTimeZone, getDefaultTimeZone()),
+    setTimeZone,
+    isLoading: session.isPending,
+  };
+}
@@ -1,7 +1,11 @@
+import { inferAdditionalFields } from "better-auth/client/plugins";
 import { createAuthClient } from "better-auth/react";
+import type { auth } from "./config";
 
 export const authClient = createAuthClient({
   baseURL: process.env.BETTER_AUTH_URL,
+  plugins: [inferAdditionalFields<typeof auth>()],
 });
 
-export const { signIn, signUp, signOut, useSession, getSession } = authClient;
+export const { signIn, signUp, signOut, useSession, getSession, updateUser } =
+  authClient;
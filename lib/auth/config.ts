@@ -1,6 +1,9 @@
 import { betterAuth } from "better-auth";
 import { mongodbAdapter } from "better-auth/adapters/mongodb";
 import { MongoClient } from "mongodb";
+import { z } from "zod";
+import { isValidSessionGap } from "@/lib/stats/sessions";
+import { isValidTimeZone } from "@/lib/stats/time-zone";
 
 const client = new MongoClient(process.env.MONGODB_URI as string);
 
@@ -8,6 +11,29 @@ const db = client.db("ytmusic-stats");
 
 export const auth = betterAuth({
   database: mongodbAdapter(db),
+  user: {
+    additionalFields: {
+      // IANA time zone stats are counted in, detected from the browser
+      // until the user picks one
+      timeZone: {
+        type: "string",
+        required: false,
+        input: true,
+        validator: {
+          input: z.string().refine(isValidTimeZone, "Invalid time zone"),
+        },
+      },
+      // Minutes without plays that end a listening session
+      sessionGap: {
+        type: "number",
+        required: false,
+        input: true,
+        validator: {
+          input: z.number().refine(isValidSessionGap, "Invalid session gap"),
+        },
+      },
+    },
+  },
   emailAndPassword: {
     enabled: true,
   },
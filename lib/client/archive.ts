@@ -0,0 +1,331 @@
+/**
+ * Client-side Takeout archive reader
+ *
+ * Finds the YouTube watch history inside a Google Takeout `.zip` or `.tgz`
+ * without the user extracting anything. Archives are streamed, and only
+ * the history files are decompressed into memory.
+ */
+
+import { Unzip, UnzipInflate } from "fflate";
+import { CELL_MARKER } from "./html-parser";
+import type { StreamProgress } from "./json-stream";
+import { isHistoryFileName, isHistoryFolder } from "./locales";
+
+const TAR_BLOCK_SIZE = 512;
+
+// Bytes read from the end of a candidate file to tell what kind of history
+// it is - HTML exports open with a long stylesheet
+const SNIFF_SIZE = 64 * 1024;
+
+/**
+ * Check if the file is a Takeout archive rather than a history file
+ */
+export function isArchive(file: File): boolean {
+  return /\.(zip|tgz|tar\.gz)$/i.test(file.name);
+}
+
+/**
+ * Check if an archive entry could be a YouTube watch history file
+ *
+ * Takeout names files and folders in the account's language (e.g.
+ * "YouTube und YouTube Music/Verlauf/Wiedergabeverlauf.json"), so the
+ * localized names of the history file, and of the folder it's in, are
+ * looked up in the locale table. `isActivityHistory` checks what's in the
+ * candidates.
+ */
+export function isHistoryFile(path: string): boolean {
+  const match = path.match(/(?:^|\/)(?:([^/]+)\/)?([^/]+)\.(?:json|html)$/i);
+  if (!match) return false;
+
+  const [, folder, name] = match;
+  return isHistoryFileName(name) || (!!folder && isHistoryFolder(folder));
+}
+
+/**
+ * Check if an extracted file is a Takeout activity export - a JSON array
+ * of activity entries, or the HTML page of activity cells - rather than
+ * another export that happens to sit next to it
+ */
+async function isActivityHistory(file: File): Promise<boolean> {
+  const sample = await file.slice(-SNIFF_SIZE).text();
+  if (/\.html$/i.test(file.name)) {
+    return sample.includes(CELL_MARKER);
+  }
+  return ['"header"', '"titleUrl"', '"time"'].every((key) =>
+    sample.includes(key),
+  );
+}
+
+function getFileName(path: string): string {
+  return path.split("/").pop() || path;
+}
+
+function getMimeType(path: string): string {
+  return /\.html$/i.test(path) ? "text/html" : "application/json";
+}
+
+/**
+ * Read a Blob as byte chunks, reporting progress
+ */
+async function* streamBytes(
+  blob: Blob | ReadableStream<Uint8Array>,
+  totalBytes: number,
+  onProgress?: (progress: StreamProgress) => void,
+): AsyncGenerator<Uint8Array> {
+  const stream = blob instanceof Blob ? blob.stream() : blob;
+  const reader = stream.getReader();
+  let bytesRead = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      bytesRead += value.byteLength;
+      onProgress?.({ bytesRead, totalBytes });
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Extract matching files from a ZIP archive
+ */
+async function extractFromZip(
+  file: File,
+  onProgress?: (progress: StreamProgress) => void,
+): Promise<File[]> {
+  const found: File[] = [];
+  const pending: Promise<void>[] = [];
+
+  const unzip = new Unzip((entry) => {
+    if (!isHistoryFile(entry.name)) return;
+
+    pending.push(
+      new Promise<void>((resolve, reject) => {
+        const chunks: Uint8Array[] = [];
+        entry.ondata = (error, data, final) => {
+          if (error) {
+            reject(error);
+            return;
+          }
+          chunks.push(data);
+          if (final) {
+            found.push(
+              new File(chunks as BlobPart[], getFileName(entry.name), {
+                type: getMimeType(entry.name),
+              }),
+            );
+            resolve();
+          }
+        };
+        entry.start();
+      }),
+    );
+  });
+  unzip.register(UnzipInflate);
+
+  for await (const chunk of streamBytes(file, file.size, onProgress)) {
+    unzip.push(chunk);
+  }
+  unzip.push(new Uint8Array(0), true);
+
+  await Promise.all(pending);
+  return found;
+}
+
+function readTarString(block: Uint8Array, offset: number, length: number) {
+  const bytes = block.subarray(offset, offset + length);
+  const end = bytes.indexOf(0);
+  return new TextDecoder().decode(end >= 0 ? bytes.subarray(0, end) : bytes);
+}
+
+/**
+ * Read the path from a PAX extended header ("<len> path=<value>\n" records)
+ */
+function readPaxPath(data: string): string | null {
+  for (const record of data.split("\n")) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return result;
+}
+
+interface TarEntry {
+  name: string;
+  type: string;
+  /** Collected data, or null when the entry is skipped */
+  chunks: Uint8Array[] | null;
+}
+
+/**
+ * Incremental TAR reader that keeps only the history files
+ *
+ * Handles ustar prefixes as well as PAX ("x") and GNU ("L") long names.
+ */
+class TarExtractor {
+  readonly files: File[] = [];
+  private readonly header = new Uint8Array(TAR_BLOCK_SIZE);
+  private readonly decoder = new TextDecoder();
+  private headerFill = 0;
+  private remaining = 0;
+  private padding = 0;
+  private longName: string | null = null;
+  private current: TarEntry | null = null;
+
+  push(chunk: Uint8Array): void {
+    let position = 0;
+
+    while (position < chunk.length) {
+      if (this.remaining > 0) {
+        const length = Math.min(this.remaining, chunk.length - position);
+        this.current?.chunks?.push(chunk.slice(position, position + length));
+        this.remaining -= length;
+        position += length;
+        if (this.remaining === 0) {
+          this.finishEntry();
+        }
+        continue;
+      }
+
+      if (this.padding > 0) {
+        const length = Math.min(this.padding, chunk.length - position);
+        this.padding -= length;
+        position += length;
+        continue;
+      }
+
+      const length = Math.min(
+        TAR_BLOCK_SIZE - this.headerFill,
+        chunk.length - position,
+      );
+      this.header.set(
+        chunk.subarray(position, position + length),
+        this.headerFill,
+      );
+      this.headerFill += length;
+      position += length;
+
+      if (this.headerFill === TAR_BLOCK_SIZE) {
+        this.headerFill = 0;
+        this.readHeader();
+      }
+    }
+  }
+
+  private readHeader() {
+    const { header } = this;
+
+    // Zero blocks mark the end of the archive
+    if (header.every((byte) => byte === 0)) return;
+
+    const type = String.fromCharCode(header[156] || 0x30);
+    const isUstar = readTarString(header, 257, 6).startsWith("ustar");
+    const prefix = isUstar ? readTarString(header, 345, 155) : "";
+    const baseName = readTarString(header, 0, 100);
+    const name = this.longName ?? (prefix ? `${prefix}/${baseName}` : baseName);
+    const size = Number.parseInt(readTarString(header, 124, 12).trim(), 8) || 0;
+
+    const isLongName = type === "x" || type === "L";
+    const isRegularFile = type === "0" || type === "\0";
+
+    // A long name only applies to the entry right after it
+    if (!isLongName) {
+      this.longName = null;
+    }
+
+    const wanted = isLongName || (isRegularFile && isHistoryFile(name));
+    this.current = { name, type, chunks: wanted ? [] : null };
+    this.remaining = size;
+    this.padding = (TAR_BLOCK_SIZE - (size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+
+    if (size === 0) {
+      this.finishEntry();
+    }
+  }
+
+  private finishEntry() {
+    const entry = this.current;
+    this.current = null;
+
+    if (!entry?.chunks) return;
+
+    if (entry.type === "x" || entry.type === "L") {
+      const data = this.decoder.decode(concatBytes(entry.chunks));
+      this.longName =
+        entry.type === "x" ? readPaxPath(data) : data.replace(/\0+$/, "");
+      return;
+    }
+
+    this.files.push(
+      new File(entry.chunks as BlobPart[], getFileName(entry.name), {
+        type: getMimeType(entry.name),
+      }),
+    );
+  }
+}
+
+/**
+ * Extract matching files from a gzipped TAR archive
+ */
+async function extractFromTgz(
+  file: File,
+  onProgress?: (progress: StreamProgress) => void,
+): Promise<File[]> {
+  // Progress is reported on compressed bytes, the only size we know up front
+  let compressedRead = 0;
+  const tar = file
+    .stream()
+    .pipeThrough(
+      new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>({
+        transform(chunk, controller) {
+          compressedRead += chunk.byteLength;
+          onProgress?.({ bytesRead: compressedRead, totalBytes: file.size });
+          controller.enqueue(chunk);
+        },
+      }),
+    )
+    .pipeThrough(new DecompressionStream("gzip"));
+
+  const extractor = new TarExtractor();
+
+  for await (const chunk of streamBytes(tar, file.size)) {
+    extractor.push(chunk);
+  }
+
+  return extractor.files;
+}
+
+/**
+ * Find and extract the YouTube history file(s) from a Takeout archive
+ */
+export async function extractHistoryFiles(
+  file: File,
+  onProgress?: (progress: StreamProgress) => void,
+): Promise<File[]> {
+  const candidates = /\.zip$/i.test(file.name)
+    ? await extractFromZip(file, onProgress)
+    : await extractFromTgz(file, onProgress);
+
+  const matches = await Promise.all(candidates.map(isActivityHistory));
+  const histories = candidates.filter((_, i) => matches[i]);
+
+  // Files only found by their folder (searches, ...) are a last resort
+  const named = histories.filter((history) =>
+    isHistoryFileName(history.name.replace(/\.(json|html)$/i, "")),
+  );
+  return named.length > 0 ? named : histories;
+}
@@ -0,0 +1,110 @@
+/**
+ * Cumulative listening history
+ *
+ * Every upload is merged into the plays stored for the user, so history
+ * older than Google's retention window is kept when a newer Takeout is
+ * uploaded. Plays are de-duplicated by (video, time played).
+ */
+
+import { getPlayKey, normalizePlayedAt } from "@/lib/stats/play-keys";
+import type {
+  ApiResponse,
+  ParsedSongInfo,
+  PlayImportResult,
+  ResolvedPlay,
+} from "@/lib/types/database";
+
+// Plays per request when loading or saving history
+const HISTORY_PAGE_SIZE = 5000;
+
+function getDedupKey(play: ParsedSongInfo): string {
+  return `${getPlayKey(play)}@${normalizePlayedAt(play.playedAt).getTime()}`;
+}
+
+/**
+ * Merge uploaded plays into the stored history
+ *
+ * Returns the combined history and the plays that weren't stored yet.
+ */
+export function mergePlays(
+  stored: ParsedSongInfo[],
+  uploaded: ParsedSongInfo[],
+): { plays: ParsedSongInfo[]; newPlays: ParsedSongInfo[] } {
+  const seen = new Set(stored.map(getDedupKey));
+  const newPlays: ParsedSongInfo[] = [];
+
+  for (const play of uploaded) {
+    const key = getDedupKey(play);
+    if (seen.has(key)) continue;
+
+    seen.add(key);
+    newPlays.push({ ...play, playedAt: normalizePlayedAt(play.playedAt) });
+  }
+
+  return { plays: [...stored, ...newPlays], newPlays };
+}
+
+/**
+ * Load every play stored for the signed-in user
+ */
+export async function loadStoredPlays(
+  signal?: AbortSignal,
+): Promise<ParsedSongInfo[]> {
+  const plays: ParsedSongInfo[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const params = new URLSearchParams({ limit: String(HISTORY_PAGE_SIZE) });
+    if (cursor) params.set("cursor", cursor);
+
+    const response = await fetch(`/api/plays?${params}`, { signal });
+    const body: ApiResponse<{
+      plays: ParsedSongInfo[];
+      nextCursor?: string;
+    }> = await response.json().catch(() => ({ success: false }));
+
+    if (!response.ok || !body.data) {
+      throw new Error(body.error || "Failed to load your listening history");
+    }
+
+    for (const play of body.data.plays) {
+      plays.push({ ...play, playedAt: new Date(play.playedAt) });
+    }
+    cursor = body.data.nextCursor;
+  } while (cursor);
+
+  return plays;
+}
+
+/**
+ * Add plays to the signed-in user's stored history
+ */
+export async function savePlays(
+  plays: ResolvedPlay[],
+  signal?: AbortSignal,
+): Promise<PlayImportResult> {
+  const total: PlayImportResult = { inserted: 0, duplicates: 0 };
+
+  for (let i = 0; i < plays.length; i += HISTORY_PAGE_SIZE) {
+    const response = await fetch("/api/plays", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ plays: plays.slice(i, i + HISTORY_PAGE_SIZE) }),
+      signal,
+    });
+    const body: ApiResponse<PlayImportResult> = await response
+      .json()
+      .catch(() => ({ success: false }));
+
+    if (!response.ok || !body.data) {
+      throw new Error(body.error || "Failed to save your listening history");
+    }
+
+    total.inserted += body.data.inserted;
+    total.duplicates += body.data.duplicates;
+  }
+
+  return total;
+}
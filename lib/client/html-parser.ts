@@ -0,0 +1,295 @@
+/**
+ * Client-side parser for the HTML flavour of Takeout watch history
+ *
+ * Takeout's default export is `watch-history.html`, one `outer-cell` block
+ * per activity. This module turns those blocks into the same
+ * `GoogleTakeoutEntry` objects the JSON export contains. It works on plain
+ * strings (no DOMParser) so it also runs inside the processing worker.
+ */
+
+import type { GoogleTakeoutEntry } from "@/lib/types/database";
+import { type StreamProgress, streamText } from "./json-stream";
+import { getMonthIndex } from "./locales";
+
+export const CELL_MARKER = '<div class="outer-cell';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  emsp: " ",
+  ensp: " ",
+  thinsp: " ",
+};
+
+// Offsets in minutes for the zone abbreviations Takeout prints
+const TIME_ZONE_OFFSETS: Record<string, number> = {
+  UTC: 0,
+  GMT: 0,
+  WET: 0,
+  WEST: 60,
+  BST: 60,
+  CET: 60,
+  CEST: 120,
+  MEZ: 60,
+  MESZ: 120,
+  EET: 120,
+  EEST: 180,
+  MSK: 180,
+  IST: 330,
+  SGT: 480,
+  HKT: 480,
+  AWST: 480,
+  JST: 540,
+  KST: 540,
+  ACST: 570,
+  AEST: 600,
+  AEDT: 660,
+  NZST: 720,
+  NZDT: 780,
+  HST: -600,
+  AKST: -540,
+  AKDT: -480,
+  PST: -480,
+  PDT: -420,
+  MST: -420,
+  MDT: -360,
+  CST: -360,
+  CDT: -300,
+  EST: -300,
+  EDT: -240,
+  BRT: -180,
+  ART: -180,
+};
+
+/**
+ * Decode the HTML entities Takeout uses
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function stripTags(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]*>/g, ""))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Parse the time zone suffix of a Takeout timestamp into an offset in minutes
+ */
+function parseTimeZoneOffset(zone: string): number | null {
+  const normalized = zone.trim().toUpperCase();
+  if (!normalized) return null;
+
+  const offsetMatch = normalized.match(
+    /^(?:GMT|UTC)?([+\-\u2212])(\d{1,2})(?::?(\d{2}))?$/,
+  );
+  if (offsetMatch) {
+    const sign = offsetMatch[1] === "+" ? 1 : -1;
+    const hours = Number.parseInt(offsetMatch[2], 10);
+    const minutes = Number.parseInt(offsetMatch[3] || "0", 10);
+    return sign * (hours * 60 + minutes);
+  }
+
+  return TIME_ZONE_OFFSETS[normalized] ?? null;
+}
+
+/**
+ * Find the month number from a (possibly abbreviated, localized) month name
+ */
+function findMonth(words: string[]): number | null {
+  for (const word of words) {
+    const month = getMonthIndex(word);
+    if (month !== null) return month;
+  }
+  return null;
+}
+
+/**
+ * Parse a locale-formatted Takeout timestamp, e.g.
+ * "Dec 31, 2023, 11:59:59 PM EST", "31 Dec 2023, 23:59:59 GMT",
+ * "31.12.2023, 23:59:59 CET" or "2023/12/31 23:59:59 JST"
+ */
+export function parseTakeoutTimestamp(text: string): Date | null {
+  // Newer exports use narrow no-break spaces around the time
+  const normalized = text.replace(/[\u00a0\u2009\u202f]/g, " ").trim();
+
+  const timeMatch = normalized.match(
+    /(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?\s?m\.?)?/i,
+  );
+  if (!timeMatch || timeMatch.index === undefined) return null;
+
+  const datePart = normalized.slice(0, timeMatch.index);
+  const zonePart = normalized.slice(timeMatch.index + timeMatch[0].length);
+
+  let year: number | null = null;
+  let month: number | null = null;
+  let day: number | null = null;
+
+  const ymd = datePart.match(/(\d{4})[./-](\d{1,2})[./-](\d{1,2})/);
+  const dmy = datePart.match(/(\d{1,2})[./-](\d{1,2})[./-](\d{4})/);
+
+  if (ymd) {
+    year = Number.parseInt(ymd[1], 10);
+    month = Number.parseInt(ymd[2], 10) - 1;
+    day = Number.parseInt(ymd[3], 10);
+  } else if (dmy) {
+    const first = Number.parseInt(dmy[1], 10);
+    const second = Number.parseInt(dmy[2], 10);
+    year = Number.parseInt(dmy[3], 10);
+    // Day-first unless that can't be right ("/" is also used month-first)
+    if (second > 12) {
+      month = first - 1;
+      day = second;
+    } else {
+      day = first;
+      month = second - 1;
+    }
+  } else {
+    const words = datePart.split(/[\s,]+/).filter(Boolean);
+    month = findMonth(words);
+    const numbers = words.filter((word) => /^\d+\.?$/.test(word));
+    const yearWord = numbers.find((word) => /^\d{4}$/.test(word));
+    const dayWord = numbers.find((word) => /^\d{1,2}\.?$/.test(word));
+    year = yearWord ? Number.parseInt(yearWord, 10) : null;
+    day = dayWord ? Number.parseInt(dayWord, 10) : null;
+  }
+
+  if (year === null || month === null || day === null) return null;
+
+  let hours = Number.parseInt(timeMatch[1], 10);
+  const minutes = Number.parseInt(timeMatch[2], 10);
+  const seconds = Number.parseInt(timeMatch[3] || "0", 10);
+  const meridiem = timeMatch[4]?.toLowerCase().replace(/[.\s]/g, "");
+
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+
+  const offset = parseTimeZoneOffset(zonePart);
+  const date =
+    offset === null
+      ? // Unknown zone - assume it was exported in the browser's zone
+        new Date(year, month, day, hours, minutes, seconds)
+      : new Date(
+          Date.UTC(year, month, day, hours, minutes, seconds) -
+            offset * 60 * 1000,
+        );
+
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a single `outer-cell` block into a Takeout entry
+ */
+export function parseTakeoutCell(html: string): GoogleTakeoutEntry | null {
+  const headerMatch = html.match(
+    /<p class="mdl-typography--title">([\s\S]*?)<\/p>/,
+  );
+  const contentMatch = html.match(
+    /<div class="content-cell[^"]*mdl-typography--body-1">([\s\S]*?)<\/div>/,
+  );
+
+  if (!headerMatch || !contentMatch) return null;
+
+  const lines = contentMatch[1]
+    .split(/<br\s*\/?>/i)
+    .filter((line) => stripTags(line) !== "");
+
+  if (lines.length < 2) return null;
+
+  // First line is "Watched <a href=video>title</a>", last one is the time
+  const [titleLine, ...rest] = lines;
+  const timeLine = rest.pop() as string;
+
+  const titleUrl = titleLine.match(/<a href="([^"]*)"/)?.[1];
+  const subtitles = rest.flatMap((line) => {
+    const link = line.match(/<a href="([^"]*)">([\s\S]*?)<\/a>/);
+    if (!link) return [];
+    return [{ name: stripTags(link[2]), url: decodeHtmlEntities(link[1]) }];
+  });
+
+  const playedAt = parseTakeoutTimestamp(stripTags(timeLine));
+  if (!playedAt) return null;
+
+  const products: string[] = [];
+  const productsMatch = html.match(
+    /<b>Products:<\/b><br>([\s\S]*?)(?:<b>|<\/div>)/,
+  );
+  if (productsMatch) {
+    for (const product of productsMatch[1].split(/<br\s*\/?>/i)) {
+      const name = stripTags(product);
+      if (name) products.push(name);
+    }
+  }
+
+  return {
+    header: stripTags(headerMatch[1]),
+    title: stripTags(titleLine),
+    titleUrl: titleUrl ? decodeHtmlEntities(titleUrl) : undefined,
+    subtitles: subtitles.length > 0 ? subtitles : undefined,
+    time: playedAt.toISOString(),
+    products,
+  };
+}
+
+/**
+ * Stream the entries of a Takeout watch-history.html file
+ */
+export async function* streamTakeoutHtml(
+  blob: Blob,
+  onProgress?: (progress: StreamProgress) => void,
+): AsyncGenerator<GoogleTakeoutEntry> {
+  let buffer = "";
+
+  for await (const chunk of streamText(blob, onProgress)) {
+    buffer += chunk;
+
+    // A cell is complete once the next one starts
+    let start = buffer.indexOf(CELL_MARKER);
+    if (start < 0) {
+      // Keep just enough to catch a marker split across chunks
+      buffer = buffer.slice(-CELL_MARKER.length);
+      continue;
+    }
+
+    let next = buffer.indexOf(CELL_MARKER, start + CELL_MARKER.length);
+    while (next >= 0) {
+      const entry = parseTakeoutCell(buffer.slice(start, next));
+      if (entry) yield entry;
+      start = next;
+      next = buffer.indexOf(CELL_MARKER, start + CELL_MARKER.length);
+    }
+
+    buffer = buffer.slice(start);
+  }
+
+  if (buffer.startsWith(CELL_MARKER)) {
+    const entry = parseTakeoutCell(buffer);
+    if (entry) yield entry;
+  }
+}
+
+/**
+ * Sniff whether a history file is the HTML export
+ */
+export async function isHtmlHistory(blob: Blob): Promise<boolean> {
+  if (blob instanceof File && /\.html?$/i.test(blob.name)) return true;
+  const head = await blob.slice(0, 1024).text();
+  return head
+    .replace(/^\ufeff/, "")
+    .trimStart()
+    .startsWith("<");
+}
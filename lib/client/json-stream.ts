@@ -0,0 +1,190 @@
+/**
+ * Incremental JSON array reader
+ *
+ * Streams a top-level JSON array (like watch-history.json) and emits its
+ * elements one at a time, so the whole file never has to be held in memory
+ * as a single string.
+ */
+
+const OPEN_BRACE = 0x7b; // {
+const CLOSE_BRACE = 0x7d; // }
+const OPEN_BRACKET = 0x5b; // [
+const CLOSE_BRACKET = 0x5d; // ]
+const QUOTE = 0x22; // "
+const BACKSLASH = 0x5c; // \
+const COMMA = 0x2c; // ,
+const BOM = 0xfeff;
+
+const INVALID_FORMAT_ERROR = "Invalid format: Expected an array of entries.";
+
+/**
+ * Progress of a streamed read, in bytes
+ */
+export interface StreamProgress {
+  bytesRead: number;
+  totalBytes: number;
+}
+
+function isWhitespace(code: number): boolean {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09;
+}
+
+/**
+ * Tokenizer that splits a JSON array into its elements as text arrives.
+ *
+ * Only tracks the structure (string/escape state and nesting depth) and
+ * hands each complete element to `JSON.parse`, which keeps it fast.
+ */
+export class JsonArrayTokenizer<T = unknown> {
+  private buffer = "";
+  private scanIndex = 0;
+  private elementStart = -1;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private started = false;
+  private finished = false;
+
+  /**
+   * Feed the next chunk of text and return the elements it completed
+   */
+  push(chunk: string): T[] {
+    const elements: T[] = [];
+    this.buffer += chunk;
+
+    const { buffer } = this;
+
+    for (let i = this.scanIndex; i < buffer.length; i++) {
+      const code = buffer.charCodeAt(i);
+
+      if (this.finished) {
+        if (!isWhitespace(code)) {
+          throw new Error(INVALID_FORMAT_ERROR);
+        }
+        continue;
+      }
+
+      if (!this.started) {
+        if (isWhitespace(code) || code === BOM) continue;
+        if (code !== OPEN_BRACKET) {
+          throw new Error(INVALID_FORMAT_ERROR);
+        }
+        this.started = true;
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (code === BACKSLASH) {
+          this.escaped = true;
+        } else if (code === QUOTE) {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (code === QUOTE) {
+        if (this.depth === 0) {
+          throw new Error(INVALID_FORMAT_ERROR);
+        }
+        this.inString = true;
+      } else if (code === OPEN_BRACE || code === OPEN_BRACKET) {
+        if (this.depth === 0) {
+          this.elementStart = i;
+        }
+        this.depth++;
+      } else if (code === CLOSE_BRACE || code === CLOSE_BRACKET) {
+        if (this.depth === 0) {
+          if (code !== CLOSE_BRACKET) {
+            throw new Error(INVALID_FORMAT_ERROR);
+          }
+          this.finished = true;
+          continue;
+        }
+        this.depth--;
+        if (this.depth === 0) {
+          elements.push(JSON.parse(buffer.slice(this.elementStart, i + 1)));
+          this.elementStart = -1;
+        }
+      } else if (this.depth === 0 && code !== COMMA && !isWhitespace(code)) {
+        throw new Error(INVALID_FORMAT_ERROR);
+      }
+    }
+
+    // Drop everything before the element currently being read
+    if (this.elementStart >= 0) {
+      this.buffer = buffer.slice(this.elementStart);
+      this.scanIndex = this.buffer.length;
+      this.elementStart = 0;
+    } else {
+      this.buffer = "";
+      this.scanIndex = 0;
+    }
+
+    return elements;
+  }
+
+  /**
+   * Signal end of input - throws if the array was never closed
+   */
+  end(): void {
+    if (!this.finished) {
+      throw new Error("Invalid format: The file ended unexpectedly.");
+    }
+  }
+}
+
+/**
+ * Read a Blob/File as text chunks without loading it all at once
+ */
+export async function* streamText(
+  blob: Blob,
+  onProgress?: (progress: StreamProgress) => void,
+): AsyncGenerator<string> {
+  const reader = blob.stream().getReader();
+  const decoder = new TextDecoder("utf-8");
+  const totalBytes = blob.size;
+  let bytesRead = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      bytesRead += value.byteLength;
+      const text = decoder.decode(value, { stream: true });
+
+      onProgress?.({ bytesRead, totalBytes });
+
+      if (text) {
+        yield text;
+      }
+    }
+
+    const rest = decoder.decode();
+    if (rest) {
+      yield rest;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Stream the elements of a top-level JSON array from a Blob/File
+ */
+export async function* streamJsonArray<T>(
+  blob: Blob,
+  onProgress?: (progress: StreamProgress) => void,
+): AsyncGenerator<T> {
+  const tokenizer = new JsonArrayTokenizer<T>();
+
+  for await (const chunk of streamText(blob, onProgress)) {
+    for (const element of tokenizer.push(chunk)) {
+      yield element;
+    }
+  }
+
+  tokenizer.end();
+}
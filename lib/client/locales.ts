@@ -0,0 +1,419 @@
+/**
+ * Takeout export locales
+ *
+ * Takeout writes activity titles (and HTML timestamps) in the account's
+ * display language, e.g. "Watched X" in English but "X angesehen" in
+ * German. This table lists the phrases we need to recognise per language,
+ * and `detectLocale` picks the one an export was written in.
+ */
+
+import type { GoogleTakeoutEntry } from "@/lib/types/database";
+
+/**
+ * A phrase wrapped around the video title, e.g. "Watched <title>"
+ */
+export interface TitlePhrase {
+  prefix?: string;
+  suffix?: string;
+}
+
+export interface TakeoutLocale {
+  /** BCP 47 language code */
+  code: string;
+  /** Header values used for YouTube Music activity */
+  musicHeaders: string[];
+  /** Folder the YouTube activity history is exported to */
+  historyFolders: string[];
+  /** Watch history file names, without extension */
+  historyFiles: string[];
+  /** How a played video is phrased */
+  watched: TitlePhrase[];
+  /** Titles of entries for removed/private videos, with or without the
+   * "watched" phrase */
+  removedVideo: string[];
+  /** How a search is phrased */
+  searchedFor: TitlePhrase[];
+  /** Titles of other non-playback activity */
+  otherActivity: string[];
+  /** Month names/abbreviations as used in HTML timestamps, January first */
+  months: string[][];
+}
+
+export const TAKEOUT_LOCALES: TakeoutLocale[] = [
+  {
+    code: "en",
+    musicHeaders: ["YouTube Music"],
+    historyFolders: ["history"],
+    historyFiles: ["watch-history"],
+    watched: [{ prefix: "Watched " }],
+    removedVideo: [
+      "watched a video that has been removed",
+      "watched a private video",
+      "watched a video",
+    ],
+    searchedFor: [{ prefix: "Searched for " }],
+    otherActivity: ["visited youtube.com"],
+    months: [
+      ["jan", "january"],
+      ["feb", "february"],
+      ["mar", "march"],
+      ["apr", "april"],
+      ["may"],
+      ["jun", "june"],
+      ["jul", "july"],
+      ["aug", "august"],
+      ["sep", "sept", "september"],
+      ["oct", "october"],
+      ["nov", "november"],
+      ["dec", "december"],
+    ],
+  },
+  {
+    code: "de",
+    musicHeaders: ["YouTube Music"],
+    historyFolders: ["Verlauf"],
+    historyFiles: ["Wiedergabeverlauf"],
+    watched: [{ prefix: "Angesehen: " }, { suffix: " angesehen" }],
+    removedVideo: [
+      "ein video, das entfernt wurde",
+      "ein privates video",
+      "video wurde entfernt",
+    ],
+    searchedFor: [{ prefix: "Gesucht nach" }, { suffix: " gesucht" }],
+    otherActivity: ["youtube.com besucht"],
+    months: [
+      ["jan", "januar"],
+      ["feb", "februar"],
+      ["märz", "mär"],
+      ["apr", "april"],
+      ["mai"],
+      ["juni", "jun"],
+      ["juli", "jul"],
+      ["aug", "august"],
+      ["sept", "sep", "september"],
+      ["okt", "oktober"],
+      ["nov", "november"],
+      ["dez", "dezember"],
+    ],
+  },
+  {
+    code: "es",
+    musicHeaders: ["YouTube Music"],
+    historyFolders: ["historial"],
+    historyFiles: ["historial-de-reproducciones"],
+    watched: [{ prefix: "Has visto " }, { prefix: "Viste " }],
+    removedVideo: [
+      "un vídeo que se ha eliminado",
+      "un video que se eliminó",
+      "un vídeo privado",
+      "un video privado",
+    ],
+    searchedFor: [{ prefix: "Has buscado " }, { prefix: "Buscaste " }],
+    otherActivity: ["has visitado youtube.com"],
+    months: [
+      ["ene", "enero"],
+      ["feb", "febrero"],
+      ["mar", "marzo"],
+      ["abr", "abril"],
+      ["may", "mayo"],
+      ["jun", "junio"],
+      ["jul", "julio"],
+      ["ago", "agosto"],
+      ["sept", "sep", "septiembre"],
+      ["oct", "octubre"],
+      ["nov", "noviembre"],
+      ["dic", "diciembre"],
+    ],
+  },
+  {
+    code: "fr",
+    musicHeaders: ["YouTube Music"],
+    historyFolders: ["historique"],
+    historyFiles: ["historique-des-vidéos", "historique-de-visionnage"],
+    watched: [{ prefix: "Vous avez regardé " }, { prefix: "A regardé " }],
+    removedVideo: ["une vidéo qui a été supprimée", "une vidéo privée"],
+    searchedFor: [
+      { prefix: "Vous avez recherché " },
+      { prefix: "A recherché " },
+    ],
+    otherActivity: ["vous avez consulté youtube.com"],
+    months: [
+      ["janv", "janvier"],
+      ["févr", "février"],
+      ["mars"],
+      ["avr", "avril"],
+      ["mai"],
+      ["juin"],
+      ["juil", "juillet"],
+      ["août"],
+      ["sept", "septembre"],
+      ["oct", "octobre"],
+      ["nov", "novembre"],
+      ["déc", "décembre"],
+    ],
+  },
+  {
+    code: "pt",
+    musicHeaders: ["YouTube Music"],
+    historyFolders: ["histórico"],
+    historyFiles: ["histórico-de-visualização"],
+    watched: [{ prefix: "Assistiu a " }, { prefix: "Assistiu " }],
+    removedVideo: ["um vídeo que foi removido", "um vídeo privado"],
+    searchedFor: [{ prefix: "Pesquisou " }],
+    otherActivity: ["visitou youtube.com"],
+    months: [
+      ["jan", "janeiro"],
+      ["fev", "fevereiro"],
+      ["mar", "março"],
+      ["abr", "abril"],
+      ["mai", "maio"],
+      ["jun", "junho"],
+      ["jul", "julho"],
+      ["ago", "agosto"],
+      ["set", "setembro"],
+      ["out", "outubro"],
+      ["nov", "novembro"],
+      ["dez", "dezembro"],
+    ],
+  },
+  {
+    code: "it",
+    musicHeaders: ["YouTube Music"],
+    historyFolders: ["cronologia"],
+    historyFiles: ["cronologia-visualizzazioni"],
+    watched: [{ prefix: "Hai guardato " }],
+    removedVideo: ["un video che è stato rimosso", "un video privato"],
+    searchedFor: [{ prefix: "Hai cercato " }],
+    otherActivity: ["hai visitato youtube.com"],
+    months: [
+      ["gen", "gennaio"],
+      ["feb", "febbraio"],
+      ["mar", "marzo"],
+      ["apr", "aprile"],
+      ["mag", "maggio"],
+      ["giu", "giugno"],
+      ["lug", "luglio"],
+      ["ago", "agosto"],
+      ["set", "settembre"],
+      ["ott", "ottobre"],
+      ["nov", "novembre"],
+      ["dic", "dicembre"],
+    ],
+  },
+  {
+    code: "nl",
+    musicHeaders: ["YouTube Music"],
+    historyFolders: ["geschiedenis"],
+    historyFiles: ["kijkgeschiedenis"],
+    watched: [{ prefix: "Bekeken: " }, { suffix: " bekeken" }],
+    removedVideo: ["een video die is verwijderd", "een privévideo"],
+    searchedFor: [{ prefix: "Gezocht naar " }],
+    otherActivity: ["youtube.com bezocht"],
+    months: [
+      ["jan", "januari"],
+      ["feb", "februari"],
+      ["mrt", "maart"],
+      ["apr", "april"],
+      ["mei"],
+      ["jun", "juni"],
+      ["jul", "juli"],
+      ["aug", "augustus"],
+      ["sep", "september"],
+      ["okt", "oktober"],
+      ["nov", "november"],
+      ["dec", "december"],
+    ],
+  },
+  {
+    code: "ru",
+    musicHeaders: ["YouTube Music"],
+    historyFolders: ["история"],
+    historyFiles: ["история-просмотра"],
+    watched: [{ prefix: "Просмотрено: " }, { prefix: "Вы посмотрели " }],
+    removedVideo: ["удаленное видео", "видео, которое было удалено"],
+    searchedFor: [{ prefix: "Поисковый запрос" }, { prefix: "Вы искали " }],
+    otherActivity: [],
+    months: [
+      ["янв", "января"],
+      ["февр", "фев", "февраля"],
+      ["мар", "марта"],
+      ["апр", "апреля"],
+      ["мая", "май"],
+      ["июн", "июня"],
+      ["июл", "июля"],
+      ["авг", "августа"],
+      ["сент", "сен", "сентября"],
+      ["окт", "октября"],
+      ["нояб", "ноя", "ноября"],
+      ["дек", "декабря"],
+    ],
+  },
+  {
+    code: "ja",
+    musicHeaders: ["YouTube Music"],
+    historyFolders: ["履歴"],
+    historyFiles: ["再生履歴"],
+    watched: [{ suffix: " を視聴しました" }, { suffix: "を視聴しました" }],
+    removedVideo: ["削除された動画", "非公開動画"],
+    searchedFor: [{ suffix: "を検索しました" }],
+    otherActivity: [],
+    // Japanese timestamps are numeric
+    months: [],
+  },
+  {
+    code: "ko",
+    musicHeaders: ["YouTube Music"],
+    historyFolders: ["기록"],
+    historyFiles: ["시청 기록"],
+    watched: [{ suffix: " 을(를) 시청했습니다." }, { suffix: "을(를) 시청함" }],
+    removedVideo: ["삭제된 동영상", "비공개 동영상"],
+    searchedFor: [
+      { suffix: "을(를) 검색했습니다." },
+      { suffix: "을(를) 검색했습니다" },
+      { suffix: "을(를) 검색함" },
+    ],
+    otherActivity: [],
+    // Korean timestamps are numeric
+    months: [],
+  },
+];
+
+export const DEFAULT_LOCALE = TAKEOUT_LOCALES[0];
+
+// Month names across all locales - they don't conflict with each other
+const MONTH_INDEX = new Map<string, number>();
+for (const locale of TAKEOUT_LOCALES) {
+  locale.months.forEach((names, month) => {
+    for (const name of names) {
+      MONTH_INDEX.set(name, month);
+    }
+  });
+}
+
+const MUSIC_HEADERS = new Set(
+  TAKEOUT_LOCALES.flatMap((locale) =>
+    locale.musicHeaders.map((header) => header.toLowerCase()),
+  ),
+);
+
+const HISTORY_FOLDERS = new Set(
+  TAKEOUT_LOCALES.flatMap((locale) =>
+    locale.historyFolders.map(normalizeFileName),
+  ),
+);
+
+const HISTORY_FILES = new Set(
+  TAKEOUT_LOCALES.flatMap((locale) =>
+    locale.historyFiles.map(normalizeFileName),
+  ),
+);
+
+function normalizeFileName(name: string): string {
+  return name.normalize("NFC").toLowerCase();
+}
+
+/**
+ * Find the month (0-11) for a localized month name or abbreviation
+ */
+export function getMonthIndex(word: string): number | null {
+  const normalized = word.toLowerCase().replace(/\.$/, "");
+  return MONTH_INDEX.get(normalized) ?? null;
+}
+
+/**
+ * Check if an activity header belongs to YouTube Music in any language
+ */
+export function isMusicHeader(header: string): boolean {
+  return MUSIC_HEADERS.has(header.trim().toLowerCase());
+}
+
+/**
+ * Check if an archive folder is where Takeout puts the YouTube activity
+ * history, in any language
+ */
+export function isHistoryFolder(name: string): boolean {
+  return HISTORY_FOLDERS.has(normalizeFileName(name));
+}
+
+/**
+ * Check if a file name (without extension) is the watch history's, in any
+ * language
+ */
+export function isHistoryFileName(name: string): boolean {
+  return HISTORY_FILES.has(normalizeFileName(name));
+}
+
+function matchesPhrase(title: string, phrase: TitlePhrase): boolean {
+  const lower = title.toLowerCase();
+  return (
+    (!phrase.prefix || lower.startsWith(phrase.prefix.toLowerCase())) &&
+    (!phrase.suffix || lower.endsWith(phrase.suffix.toLowerCase()))
+  );
+}
+
+/**
+ * Remove the locale's "watched" phrase from an activity title
+ */
+export function stripWatchedPhrase(
+  title: string,
+  locale: TakeoutLocale,
+): string {
+  for (const phrase of locale.watched) {
+    if (matchesPhrase(title, phrase)) {
+      return title.slice(
+        phrase.prefix?.length ?? 0,
+        title.length - (phrase.suffix?.length ?? 0),
+      );
+    }
+  }
+  return title;
+}
+
+/**
+ * Check if an activity title is not a playback (removed video, search, ...)
+ */
+export function isNonPlaybackTitle(
+  title: string,
+  locale: TakeoutLocale,
+): boolean {
+  if (locale.searchedFor.some((phrase) => matchesPhrase(title, phrase))) {
+    return true;
+  }
+
+  // Whole titles only, so songs that merely mention them are kept
+  const titles = [title, stripWatchedPhrase(title, locale)].map((value) =>
+    value.trim().toLowerCase(),
+  );
+  return [...locale.removedVideo, ...locale.otherActivity].some((known) =>
+    titles.includes(known),
+  );
+}
+
+/**
+ * Detect the export language from a sample of entries
+ *
+ * Scores every locale by how many titles use its "watched" phrasing and
+ * falls back to English when nothing matches.
+ */
+export function detectLocale(sample: GoogleTakeoutEntry[]): TakeoutLocale {
+  let best = DEFAULT_LOCALE;
+  let bestScore = 0;
+
+  for (const locale of TAKEOUT_LOCALES) {
+    let score = 0;
+    for (const entry of sample) {
+      if (
+        entry.title &&
+        locale.watched.some((phrase) => matchesPhrase(entry.title, phrase))
+      ) {
+        score++;
+      }
+    }
+    if (score > bestScore) {
+      best = locale;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
@@ -3,8 +3,9 @@
  *
  * Optimized for browser execution with:
  * - Chunked processing for mobile devices
- * - Memory-efficient parsing
- * - Progress callbacks
+ * - Streaming parsing of the JSON and HTML exports
+ *   (the file is never loaded as a single string)
+ * - Progress callbacks based on bytes read
  */
 
 import type {
@@ -13,6 +14,16 @@ import type {
   ParseProgress,
   ParseResult,
 } from "@/lib/types/database";
+import { extractHistoryFiles, isArchive } from "./archive";
+import { isHtmlHistory, streamTakeoutHtml } from "./html-parser";
+import { type StreamProgress, streamJsonArray } from "./json-stream";
+import {
+  detectLocale,
+  isMusicHeader,
+  isNonPlaybackTitle,
+  stripWatchedPhrase,
+  type TakeoutLocale,
+} from "./locales";
 
 /**
  * Detect device capability for adaptive processing
@@ -36,6 +47,9 @@ function getBatchSize(capability: "high" | "low"): number {
   return capability === "high" ? 2000 : 500;
 }
 
+// Number of entries used to detect the export language
+const LOCALE_SAMPLE_SIZE = 200;
+
 /**
  * Yield to browser to prevent UI freeze
  */
@@ -46,25 +60,19 @@ function yieldToBrowser(): Promise<void> {
 /**
  * Check if entry is from YouTube Music
  */
-function isYouTubeMusicEntry(entry: GoogleTakeoutEntry): boolean {
+function isYouTubeMusicEntry(
+  entry: GoogleTakeoutEntry,
+  locale: TakeoutLocale,
+): boolean {
   if (!entry.title || !entry.time) {
     return false;
   }
 
-  if (entry.header !== "YouTube Music") {
+  if (!entry.header || !isMusicHeader(entry.header)) {
     return false;
   }
 
-  const title = entry.title.toLowerCase();
-  const excludePatterns = [
-    "watched a video that has been removed",
-    "watched a private video",
-    "watched a video",
-    "visited youtube.com",
-    "searched for",
-  ];
-
-  if (excludePatterns.some((pattern) => title.includes(pattern))) {
+  if (isNonPlaybackTitle(entry.title, locale)) {
     return false;
   }
 
@@ -97,10 +105,8 @@ function extractYouTubeId(url: string): string | undefined {
 /**
  * Clean the raw title from Google Takeout
  */
-function cleanTitle(title: string): string {
-  return title
-    .trim()
-    .replace(/^watched\s+/i, "")
+function cleanTitle(title: string, locale: TakeoutLocale): string {
+  return stripWatchedPhrase(title.trim(), locale)
     .replace(/\s*\(official\s+(video|audio|music\s+video)\)$/i, "")
     .replace(/\s*\[official\s+(video|audio|music\s+video)\]$/i, "")
     .replace(/\s*-\s*official\s+(video|audio|music\s+video)$/i, "")
@@ -174,6 +180,38 @@ export function isGenericArtist(artist: string): boolean {
   );
 }
 
+/**
+ * Extract the album from an auto-generated YouTube Music description
+ *
+ * Art tracks on "Topic" channels are described as "Provided to YouTube by
+ * <label>", then "Song · Artist", then the album, each a paragraph.
+ */
+export function extractAlbumFromDescription(
+  description: string,
+): string | null {
+  if (!description) return null;
+
+  const paragraphs = description
+    .split(/\r?\n\s*\r?\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+  const start = paragraphs.findIndex((paragraph) =>
+    /^Provided to YouTube by\b/i.test(paragraph),
+  );
+  if (start === -1) return null;
+
+  const trackLine = paragraphs[start + 1];
+  const album = paragraphs[start + 2];
+  if (!trackLine?.includes(" · ") || !album) return null;
+
+  // Without an album the next paragraph is the copyright or release date
+  if (album.includes("\n") || /^(℗|©|Released on:)/i.test(album)) {
+    return null;
+  }
+
+  return album;
+}
+
 /**
  * Extract artist name from video title
  * Common patterns: "Artist - Song", "Artist | Song", "Song by Artist"
@@ -240,7 +278,10 @@ export function extractArtistFromTitle(title: string): string | null {
 /**
  * Extract song and artist information from entry
  */
-function extractSongInfo(entry: GoogleTakeoutEntry): {
+function extractSongInfo(
+  entry: GoogleTakeoutEntry,
+  locale: TakeoutLocale,
+): {
   title: string;
   artist: string;
 } | null {
@@ -255,7 +296,7 @@ function extractSongInfo(entry: GoogleTakeoutEntry): {
     artistFromSubtitles = cleanArtistName(entry.subtitles[0].name);
   }
 
-  const cleanedTitle = cleanTitle(entry.title);
+  const cleanedTitle = cleanTitle(entry.title, locale);
 
   if (artistFromSubtitles && artistFromSubtitles !== "") {
     let songTitle = cleanedTitle;
@@ -293,9 +334,12 @@ function extractSongInfo(entry: GoogleTakeoutEntry): {
 /**
  * Parse a single entry into ParsedSongInfo
  */
-function parseSongEntry(entry: GoogleTakeoutEntry): ParsedSongInfo | null {
+function parseSongEntry(
+  entry: GoogleTakeoutEntry,
+  locale: TakeoutLocale,
+): ParsedSongInfo | null {
   try {
-    const songInfo = extractSongInfo(entry);
+    const songInfo = extractSongInfo(entry, locale);
     if (!songInfo) return null;
 
     const playedAt = new Date(entry.time);
@@ -319,110 +363,212 @@ function parseSongEntry(entry: GoogleTakeoutEntry): ParsedSongInfo | null {
 }
 
 /**
- * Main parser function - processes file with adaptive chunking
+ * Main parser function - streams the file (JSON or HTML export)
+ * and processes entries in batches
  */
 export async function parseGoogleTakeoutFile(
-  fileContent: string,
+  input: Blob | string,
   onProgress?: (progress: ParseProgress) => void,
 ): Promise<ParseResult> {
   const entries: ParsedSongInfo[] = [];
   const capability = getDeviceCapability();
   const batchSize = getBatchSize(capability);
+  const file = typeof input === "string" ? new Blob([input]) : input;
+  const totalBytes = file.size;
 
-  onProgress?.({ stage: "parsing", progress: 0 });
-
-  // Parse JSON
-  let data: GoogleTakeoutEntry[];
+  let bytesRead = 0;
+  let totalEntries = 0;
+  let musicEntries = 0;
 
-  data = JSON.parse(fileContent);
+  // The export language is detected from the first entries,
+  // which are held back until it is known
+  let locale: TakeoutLocale | null = null;
+  const sample: GoogleTakeoutEntry[] = [];
 
-  if (!Array.isArray(data)) {
-    return {
-      entries: [],
-      totalEntries: 0,
-      musicEntries: 0,
-      error: "Invalid format: Expected an array of entries.",
-    };
-  }
+  const processEntry = (entry: GoogleTakeoutEntry, locale: TakeoutLocale) => {
+    if (!isYouTubeMusicEntry(entry, locale)) return;
 
-  const totalEntries = data.length;
-  let musicEntries = 0;
+    musicEntries++;
+    const parsedSong = parseSongEntry(entry, locale);
 
-  onProgress?.({
-    stage: "filtering",
-    progress: 10,
-    totalEntries,
-    entriesProcessed: 0,
-  });
+    if (parsedSong) {
+      entries.push(parsedSong);
+    }
+  };
 
-  // Process in batches
-  for (let i = 0; i < data.length; i += batchSize) {
-    const batchEnd = Math.min(i + batchSize, data.length);
+  const detectAndFlush = () => {
+    const detected = detectLocale(sample);
+    for (const entry of sample) {
+      processEntry(entry, detected);
+    }
+    sample.length = 0;
+    return detected;
+  };
 
-    for (let j = i; j < batchEnd; j++) {
-      const entry = data[j];
+  onProgress?.({ stage: "parsing", progress: 5, bytesRead, totalBytes });
 
-      if (!isYouTubeMusicEntry(entry)) {
-        continue;
+  try {
+    const onStreamProgress = (streamProgress: StreamProgress) => {
+      bytesRead = streamProgress.bytesRead;
+    };
+    const stream = (await isHtmlHistory(file))
+      ? streamTakeoutHtml(file, onStreamProgress)
+      : streamJsonArray<GoogleTakeoutEntry>(file, onStreamProgress);
+
+    for await (const entry of stream) {
+      totalEntries++;
+
+      if (locale) {
+        processEntry(entry, locale);
+      } else {
+        sample.push(entry);
+        if (sample.length >= LOCALE_SAMPLE_SIZE) {
+          locale = detectAndFlush();
+        }
       }
 
-      musicEntries++;
-      const parsedSong = parseSongEntry(entry);
-
-      if (parsedSong) {
-        entries.push(parsedSong);
+      if (totalEntries % batchSize === 0) {
+        // Calculate progress from bytes consumed (5% to 95%)
+        const progress =
+          5 + (totalBytes > 0 ? (bytesRead / totalBytes) * 90 : 90);
+
+        onProgress?.({
+          stage: "filtering",
+          progress: Math.round(progress),
+          entriesProcessed: totalEntries,
+          musicEntries,
+          bytesRead,
+          totalBytes,
+        });
+
+        // Yield to browser to prevent freeze
+        if (capability === "low" || totalEntries % (batchSize * 2) === 0) {
+          await yieldToBrowser();
+        }
       }
     }
 
-    // Calculate progress (10% to 90% for filtering)
-    const progress = 10 + (batchEnd / totalEntries) * 80;
-
-    onProgress?.({
-      stage: "filtering",
-      progress: Math.round(progress),
+    locale ??= detectAndFlush();
+  } catch (error) {
+    return {
+      entries: [],
       totalEntries,
-      entriesProcessed: batchEnd,
       musicEntries,
-    });
-
-    // Yield to browser to prevent freeze
-    if (capability === "low" || i % (batchSize * 2) === 0) {
-      await yieldToBrowser();
-    }
+      error:
+        error instanceof SyntaxError
+          ? "Invalid format: The file is not valid JSON."
+          : error instanceof Error
+            ? error.message
+            : "Failed to parse file.",
+    };
   }
 
-  // Help garbage collection
-  data.length = 0;
-
   onProgress?.({
     stage: "complete",
     progress: 100,
     totalEntries,
     entriesProcessed: totalEntries,
     musicEntries,
+    bytesRead: totalBytes,
+    totalBytes,
   });
 
   return {
     entries,
     totalEntries,
     musicEntries,
+    locale: locale.code,
   };
 }
 
 /**
- * Read and parse a File object
+ * Parse several history files as one, scaling their progress into a range
+ */
+async function parseHistoryFiles(
+  files: File[],
+  progressStart: number,
+  onProgress?: (progress: ParseProgress) => void,
+): Promise<ParseResult> {
+  const combined: ParseResult = {
+    entries: [],
+    totalEntries: 0,
+    musicEntries: 0,
+  };
+  const progressRange = 100 - progressStart;
+
+  for (let i = 0; i < files.length; i++) {
+    const result = await parseGoogleTakeoutFile(files[i], (fileProgress) => {
+      if (fileProgress.stage === "complete") return;
+      onProgress?.({
+        ...fileProgress,
+        progress: Math.round(
+          progressStart +
+            ((i + fileProgress.progress / 100) / files.length) * progressRange,
+        ),
+        entriesProcessed:
+          combined.totalEntries + (fileProgress.entriesProcessed || 0),
+        musicEntries: combined.musicEntries + (fileProgress.musicEntries || 0),
+      });
+    });
+
+    for (const entry of result.entries) {
+      combined.entries.push(entry);
+    }
+    combined.totalEntries += result.totalEntries;
+    combined.musicEntries += result.musicEntries;
+    combined.error ??= result.error;
+    combined.locale ??= result.locale;
+  }
+
+  onProgress?.({
+    stage: "complete",
+    progress: 100,
+    totalEntries: combined.totalEntries,
+    entriesProcessed: combined.totalEntries,
+    musicEntries: combined.musicEntries,
+  });
+
+  return combined;
+}
+
+/**
+ * Read and parse a File object - either a history file or a Takeout archive
  */
 export async function parseFile(
   file: File,
   onProgress?: (progress: ParseProgress) => void,
 ): Promise<ParseResult> {
-  onProgress?.({ stage: "reading", progress: 0 });
+  onProgress?.({
+    stage: "reading",
+    progress: 0,
+    bytesRead: 0,
+    totalBytes: file.size,
+  });
 
-  const text = await file.text();
+  if (!isArchive(file)) {
+    return parseGoogleTakeoutFile(file, onProgress);
+  }
 
-  onProgress?.({ stage: "reading", progress: 5 });
+  // Extracting the archive takes the first 30% of progress
+  const historyFiles = await extractHistoryFiles(file, (archiveProgress) => {
+    onProgress?.({
+      stage: "reading",
+      progress: Math.round(
+        (archiveProgress.bytesRead / archiveProgress.totalBytes) * 30,
+      ),
+      ...archiveProgress,
+    });
+  });
 
-  const result = await parseGoogleTakeoutFile(text, onProgress);
+  if (historyFiles.length === 0) {
+    return {
+      entries: [],
+      totalEntries: 0,
+      musicEntries: 0,
+      error:
+        "No watch history found in this archive. Make sure 'YouTube and YouTube Music' history is included in your Takeout export.",
+    };
+  }
 
-  return result;
+  return parseHistoryFiles(historyFiles, 30, onProgress);
 }
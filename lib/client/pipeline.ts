@@ -0,0 +1,150 @@
+/**
+ * Main-thread side of the upload processing worker
+ *
+ * Starts the worker, relays its progress events and answers its
+ * metadata lookups with the `lookupSongs` server action. Lookups only read
+ * the song cache - uncached songs are left to the enrichment job, so an
+ * upload never waits on the metadata providers.
+ */
+
+import { lookupSongs } from "@/app/actions/songs";
+import type {
+  FetchProgress,
+  ParseProgress,
+  StatsProgress,
+} from "@/lib/types/database";
+import type {
+  PipelineEvent,
+  PipelineRequest,
+  PipelineResult,
+  PipelineStage,
+} from "@/lib/types/pipeline";
+
+// How long a cancelled worker gets to wind down before it is terminated
+const CANCEL_GRACE_PERIOD = 2000;
+
+/**
+ * Thrown (as a rejection of `PipelineJob.result`) when a job is cancelled
+ */
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super("Processing was cancelled");
+    this.name = "PipelineCancelledError";
+  }
+}
+
+export interface PipelineHandlers {
+  onStage?: (stage: PipelineStage) => void;
+  onParseProgress?: (progress: ParseProgress) => void;
+  onFetchProgress?: (progress: FetchProgress) => void;
+  onStatsProgress?: (progress: StatsProgress) => void;
+}
+
+export interface PipelineJob {
+  /** Resolves with the calculated stats, rejects on error or cancellation */
+  result: Promise<PipelineResult>;
+  /** Abort the job - `result` rejects with `PipelineCancelledError` */
+  cancel: () => void;
+}
+
+/**
+ * Process a Takeout file in a dedicated worker
+ *
+ * @param timeZone - IANA time zone days and hours are counted in
+ * @param sessionGap - Minutes without plays that end a listening session
+ */
+export function runPipeline(
+  file: File,
+  timeZone: string,
+  sessionGap: number,
+  handlers: PipelineHandlers = {},
+): PipelineJob {
+  const worker = new Worker(new URL("./pipeline.worker.ts", import.meta.url), {
+    type: "module",
+  });
+
+  let settled = false;
+  let rejectResult: (reason: unknown) => void = () => {};
+
+  const send = (request: PipelineRequest) => worker.postMessage(request);
+
+  const result = new Promise<PipelineResult>((resolve, reject) => {
+    rejectResult = reject;
+
+    const finish = () => {
+      settled = true;
+      worker.terminate();
+    };
+
+    worker.addEventListener(
+      "message",
+      async (message: MessageEvent<PipelineEvent>) => {
+        const event = message.data;
+
+        // Ignore stragglers from a job that was already cancelled
+        if (settled && event.type !== "cancelled") return;
+
+        switch (event.type) {
+          case "stage":
+            handlers.onStage?.(event.stage);
+            break;
+          case "parse-progress":
+            handlers.onParseProgress?.(event.progress);
+            break;
+          case "fetch-progress":
+            handlers.onFetchProgress?.(event.progress);
+            break;
+          case "stats-progress":
+            handlers.onStatsProgress?.(event.progress);
+            break;
+          case "lookup": {
+            const lookupResult = await lookupSongs(event.videoIds, {
+              cacheOnly: true,
+            }).catch((error) => {
+              console.error("Error looking up songs:", error);
+              return { success: false, error: "Lookup failed" };
+            });
+            if (!settled) {
+              send({
+                type: "lookup-result",
+                requestId: event.requestId,
+                result: lookupResult,
+              });
+            }
+            break;
+          }
+          case "complete":
+            finish();
+            resolve(event.result);
+            break;
+          case "error":
+            finish();
+            reject(new Error(event.message));
+            break;
+          case "cancelled":
+            worker.terminate();
+            break;
+        }
+      },
+    );
+
+    worker.addEventListener("error", (event) => {
+      finish();
+      reject(new Error(event.message || "Processing worker crashed"));
+    });
+  });
+
+  send({ type: "start", file, timeZone, sessionGap });
+
+  return {
+    result,
+    cancel: () => {
+      if (settled) return;
+      settled = true;
+      send({ type: "cancel" });
+      rejectResult(new PipelineCancelledError());
+      // Give the worker a moment to stop cleanly, then force it
+      setTimeout(() => worker.terminate(), CANCEL_GRACE_PERIOD);
+    },
+  };
+}
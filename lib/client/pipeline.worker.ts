@@ -0,0 +1,163 @@
+/**
+ * Upload processing worker
+ *
+ * Owns the parse → merge → enrich → calculate pipeline so none of it runs on the
+ * main thread. Talks to the page through the messages in
+ * `@/lib/types/pipeline`.
+ */
+
+import { calculateStats, resolvePlays } from "@/lib/stats/calculator";
+import type { LookupResult } from "@/lib/types/database";
+import type { PipelineEvent, PipelineRequest } from "@/lib/types/pipeline";
+import { loadStoredPlays, mergePlays, savePlays } from "./history";
+import { getDeviceCapability, parseFile } from "./parser";
+import { fetchSongMetadata } from "./youtube";
+
+let controller: AbortController | null = null;
+let nextRequestId = 0;
+const pendingLookups = new Map<
+  number,
+  {
+    resolve: (result: LookupResult) => void;
+    reject: (reason: unknown) => void;
+  }
+>();
+
+function post(event: PipelineEvent) {
+  self.postMessage(event);
+}
+
+/**
+ * Ask the main thread to run the `lookupSongs` server action
+ */
+function lookupViaMainThread(
+  videoIds: string[],
+  signal: AbortSignal,
+): Promise<LookupResult> {
+  signal.throwIfAborted();
+
+  const requestId = nextRequestId++;
+  return new Promise((resolve, reject) => {
+    pendingLookups.set(requestId, { resolve, reject });
+    post({ type: "lookup", requestId, videoIds });
+  });
+}
+
+async function runPipeline(
+  file: File,
+  timeZone: string,
+  sessionGap: number,
+  signal: AbortSignal,
+) {
+  post({ type: "stage", stage: "parsing" });
+  const parseResult = await parseFile(file, (progress) => {
+    signal.throwIfAborted();
+    post({ type: "parse-progress", progress });
+  });
+
+  if (parseResult.error && parseResult.entries.length === 0) {
+    throw new Error(parseResult.error);
+  }
+
+  if (parseResult.entries.length === 0) {
+    throw new Error(
+      "No YouTube Music entries found in this file. Make sure you're uploading your YouTube Music watch history.",
+    );
+  }
+
+  // Merge into the stored history so older plays survive this upload,
+  // then enrich from the song cache and calculate provisional stats over
+  // the combined history
+  post({ type: "stage", stage: "merging" });
+  const storedPlays = await loadStoredPlays(signal);
+  const { plays, newPlays } = mergePlays(storedPlays, parseResult.entries);
+
+  post({ type: "stage", stage: "fetching" });
+  const { metadata, pendingIds } = await fetchSongMetadata(
+    plays,
+    (videoIds) => lookupViaMainThread(videoIds, signal),
+    (progress) => {
+      signal.throwIfAborted();
+      post({ type: "fetch-progress", progress });
+    },
+  );
+
+  post({ type: "stage", stage: "calculating" });
+  const stats = await calculateStats(
+    plays,
+    (progress) => {
+      signal.throwIfAborted();
+      post({ type: "stats-progress", progress });
+    },
+    metadata,
+    { timeZone, sessionGap, capability: getDeviceCapability() },
+  );
+
+  // Store the new plays once metadata has resolved their artist/duration
+  post({ type: "stage", stage: "saving" });
+  await savePlays(resolvePlays(newPlays, metadata), signal);
+
+  signal.throwIfAborted();
+
+  return {
+    stats,
+    totalEntries: parseResult.totalEntries,
+    musicEntries: parseResult.musicEntries,
+    newPlays: newPlays.length,
+    historyPlays: plays.length,
+    metadataCount: metadata.size,
+    pendingVideoIds: pendingIds,
+  };
+}
+
+self.addEventListener("message", (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case "start": {
+      controller?.abort();
+      const current = new AbortController();
+      controller = current;
+
+      runPipeline(
+        request.file,
+        request.timeZone,
+        request.sessionGap,
+        current.signal,
+      )
+        .then((result) => post({ type: "complete", result }))
+        .catch((error) => {
+          if (current.signal.aborted) {
+            post({ type: "cancelled" });
+            return;
+          }
+          post({
+            type: "error",
+            message:
+              error instanceof Error
+                ? error.message
+                : "Processing failed. Please try again.",
+          });
+        });
+      break;
+    }
+
+    case "cancel": {
+      controller?.abort();
+      for (const { reject } of pendingLookups.values()) {
+        reject(new DOMException("Cancelled", "AbortError"));
+      }
+      pendingLookups.clear();
+      break;
+    }
+
+    case "lookup-result": {
+      const pending = pendingLookups.get(request.requestId);
+      if (pending) {
+        pendingLookups.delete(request.requestId);
+        pending.resolve(request.result);
+      }
+      break;
+    }
+  }
+});
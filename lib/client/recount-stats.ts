@@ -0,0 +1,21 @@
+/**
+ * Recount the saved stats after a profile setting they're counted with
+ * changed - `PATCH /api/stats`
+ */
+export async function recountStats(settings: {
+  timeZone?: string;
+  sessionGap?: number;
+}): Promise<void> {
+  const response = await fetch("/api/stats", {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(settings),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || "Failed to recount stats");
+  }
+}
@@ -1,13 +1,15 @@
 /**
  * Client-side YouTube metadata fetcher
- * Fetches song metadata using server action
+ * Fetches song metadata in batches through a lookup function
+ * (the `lookupSongs` server action, or a proxy to it from a worker)
  */
 
-import { lookupSongs } from "@/app/actions/songs";
 import type {
   FetchProgress,
   ISong,
+  LookupResult,
   ParsedSongInfo,
+  SongMetadataResult,
 } from "@/lib/types/database";
 
 // Batch size for client-side processing to show incremental progress
@@ -17,26 +19,38 @@ const CLIENT_BATCH_SIZE = 200;
 export type { FetchProgress } from "@/lib/types/database";
 
 /**
- * Fetch metadata for a batch of entries using server action
- * Processes in batches to show incremental progress
+ * Looks up song metadata for a batch of video IDs
+ */
+export type SongLookup = (videoIds: string[]) => Promise<LookupResult>;
+
+/**
+ * Fetch metadata for a batch of entries using the given lookup
+ * Processes in batches to show incremental progress, and reports the songs
+ * that couldn't be looked up so they can be flagged as estimates
  */
 export async function fetchSongMetadata(
   entries: ParsedSongInfo[],
+  lookup: SongLookup,
   onProgress?: (progress: FetchProgress) => void,
-): Promise<Map<string, ISong>> {
+): Promise<SongMetadataResult> {
   // Extract unique video IDs
-  const videoIds: string[] = [];
+  const uniqueIds = new Set<string>();
 
   for (const entry of entries) {
-    if (entry.youtubeId && !videoIds.includes(entry.youtubeId)) {
-      videoIds.push(entry.youtubeId);
+    if (entry.youtubeId) {
+      uniqueIds.add(entry.youtubeId);
     }
   }
 
+  const videoIds = Array.from(uniqueIds);
+
   const metadata = new Map<string, ISong>();
+  const unresolvedIds: string[] = [];
+  const pendingIds: string[] = [];
+  let quotaExhausted = false;
 
   if (videoIds.length === 0) {
-    return metadata;
+    return { metadata, unresolvedIds, pendingIds, quotaExhausted };
   }
 
   const totalBatches = Math.ceil(videoIds.length / CLIENT_BATCH_SIZE);
@@ -53,6 +67,8 @@ export async function fetchSongMetadata(
       cached: 0,
       currentBatch: 0,
       totalBatches,
+      unresolved: 0,
+      quotaExhausted,
     });
   }
 
@@ -62,7 +78,7 @@ export async function fetchSongMetadata(
     const currentBatch = Math.floor(i / CLIENT_BATCH_SIZE) + 1;
 
     try {
-      const result = await lookupSongs(batchIds);
+      const result = await lookup(batchIds);
 
       if (result.success && result.data) {
         for (const [id, song] of Object.entries(result.data)) {
@@ -88,6 +104,14 @@ export async function fetchSongMetadata(
         totalCached += result.stats.cached;
         totalFetched += result.stats.fetched;
       }
+      if (result.success) {
+        unresolvedIds.push(...(result.unresolvedIds ?? []));
+        pendingIds.push(...(result.pendingIds ?? []));
+        quotaExhausted ||= Boolean(result.quotaExhausted);
+      } else {
+        // e.g. rate limited - the enrichment job looks them up instead
+        pendingIds.push(...batchIds);
+      }
 
       processed += batchIds.length;
 
@@ -100,16 +124,23 @@ export async function fetchSongMetadata(
           cached: totalCached,
           currentBatch,
           totalBatches,
+          unresolved: unresolvedIds.length,
+          quotaExhausted,
         });
       }
     } catch (error) {
+      // Cancellation must stop the whole fetch, not just this batch
+      if (error instanceof DOMException && error.name === "AbortError") {
+        throw error;
+      }
       console.error(`Error fetching batch ${currentBatch}:`, error);
       // Continue with next batch instead of failing entirely
       processed += batchIds.length;
+      pendingIds.push(...batchIds);
     }
   }
 
-  return metadata;
+  return { metadata, unresolvedIds, pendingIds, quotaExhausted };
 }
 
 /**
@@ -0,0 +1,22 @@
+import { model, models, Schema } from "mongoose";
+import type { IApiQuota } from "@/lib/types/database";
+
+const ApiQuotaSchema = new Schema<IApiQuota>(
+  {
+    day: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    units: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+export const ApiQuota = models.ApiQuota || model("ApiQuota", ApiQuotaSchema);
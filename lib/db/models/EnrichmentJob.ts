@@ -0,0 +1,68 @@
+import { model, models, Schema } from "mongoose";
+import type { IEnrichmentJob } from "@/lib/types/database";
+
+const EnrichmentJobSchema = new Schema<IEnrichmentJob>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    videoIds: {
+      type: [String],
+      required: true,
+    },
+    total: {
+      type: Number,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["queued", "running", "completed", "failed"],
+      required: true,
+      default: "queued",
+    },
+    timeZone: {
+      type: String,
+      required: true,
+    },
+    sessionGap: {
+      type: Number,
+      required: true,
+    },
+    processed: { type: Number, default: 0 },
+    fetched: { type: Number, default: 0 },
+    unresolved: { type: Number, default: 0 },
+    unresolvedIds: { type: [String], default: [] },
+    quotaExhausted: { type: Boolean, default: false },
+    estimatedSongs: [
+      {
+        _id: false,
+        youtubeId: { type: String, required: true },
+        title: { type: String, required: true },
+        artist: { type: String, required: true },
+        playCount: { type: Number, default: 0 },
+      },
+    ],
+    error: {
+      type: String,
+    },
+    leaseExpiresAt: {
+      type: Date,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// A user's latest job
+EnrichmentJobSchema.index({ userId: 1, createdAt: -1 });
+
+export const EnrichmentJob =
+  models.EnrichmentJob || model("EnrichmentJob", EnrichmentJobSchema);
@@ -0,0 +1,69 @@
+import { model, models, Schema } from "mongoose";
+import type { IPlay } from "@/lib/types/database";
+
+const PlaySchema = new Schema<IPlay>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    playKey: {
+      type: String,
+      required: true,
+    },
+    youtubeId: {
+      type: String,
+    },
+    title: {
+      type: String,
+      required: true,
+    },
+    artist: {
+      type: String,
+      required: true,
+    },
+    resolvedArtist: {
+      type: String,
+      required: true,
+    },
+    songKey: {
+      type: String,
+      required: true,
+    },
+    duration: {
+      type: Number,
+      required: true,
+    },
+    durationSource: {
+      type: String,
+      enum: ["metadata", "estimate"],
+      required: true,
+    },
+    originalTitle: {
+      type: String,
+    },
+    playedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  },
+);
+
+// The same play can appear in several uploads - store it once
+PlaySchema.index({ userId: 1, playKey: 1, playedAt: 1 }, { unique: true });
+
+/** Artists are matched case-insensitively, as the rankings group them */
+export const ARTIST_COLLATION = { locale: "en", strength: 2 };
+
+// Time-range queries, overall and per song/artist
+PlaySchema.index({ userId: 1, playedAt: 1 });
+PlaySchema.index({ userId: 1, songKey: 1, playedAt: 1 });
+PlaySchema.index(
+  { userId: 1, resolvedArtist: 1, playedAt: 1 },
+  { name: "userId_resolvedArtist_ci", collation: ARTIST_COLLATION },
+);
+
+export const Play = models.Play || model("Play", PlaySchema);
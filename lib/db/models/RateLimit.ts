@@ -0,0 +1,30 @@
+import { model, models, Schema } from "mongoose";
+import type { IRateLimit } from "@/lib/types/database";
+
+const RateLimitSchema = new Schema<IRateLimit>({
+  key: {
+    type: String,
+    required: true,
+  },
+  windowStart: {
+    type: Date,
+    required: true,
+  },
+  count: {
+    type: Number,
+    required: true,
+    default: 0,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// One document per key and window
+RateLimitSchema.index({ key: 1, windowStart: 1 }, { unique: true });
+// Drop windows once they're over
+RateLimitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimit =
+  models.RateLimit || model("RateLimit", RateLimitSchema);
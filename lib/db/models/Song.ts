@@ -38,6 +38,20 @@ const SongSchema = new Schema<ISong>(
     releaseDate: {
       type: Date,
     },
+    album: {
+      type: String,
+    },
+    genres: {
+      type: [String],
+      default: undefined,
+    },
+    lastFetchedAt: {
+      type: Date,
+    },
+    fetchStatus: {
+      type: String,
+      enum: ["ok", "notFound", "private", "removed"],
+    },
   },
   {
     timestamps: true,
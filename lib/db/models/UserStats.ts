@@ -18,6 +18,7 @@ const UserStatsSchema = new Schema<IUserStats & { userId: string }>(
     firstPlayDate: { type: Date },
     lastPlayDate: { type: Date },
     lastUpdated: { type: Date, default: Date.now },
+    timeZone: { type: String },
     totalListens: { type: Number, default: 0 },
     monthlyPlaytime: { type: Number, default: 0 },
     dailyAverageListens: { type: Number, default: 0 },
@@ -25,6 +26,42 @@ const UserStatsSchema = new Schema<IUserStats & { userId: string }>(
     longestListenDay: { type: Date },
     longestListenDayDuration: { type: Number, default: 0 },
     longestSession: { type: Number, default: 0 },
+    sessionGap: { type: Number },
+    sessionCount: { type: Number, default: 0 },
+    averageSessionDuration: { type: Number, default: 0 },
+    sessionsPerDay: { type: Number, default: 0 },
+    topSessions: [
+      {
+        _id: false,
+        start: { type: Date, required: true },
+        end: { type: Date, required: true },
+        duration: { type: Number, default: 0 },
+        trackCount: { type: Number, default: 0 },
+        tracks: [
+          {
+            _id: false,
+            title: { type: String, required: true },
+            artist: { type: String, required: true },
+            playedAt: { type: Date, required: true },
+          },
+        ],
+      },
+    ],
+    longestStreak: {
+      days: { type: Number },
+      start: { type: Date },
+      end: { type: Date },
+    },
+    currentStreak: {
+      days: { type: Number },
+      start: { type: Date },
+      end: { type: Date },
+    },
+    longestGap: {
+      days: { type: Number },
+      start: { type: Date },
+      end: { type: Date },
+    },
     topSongs: [
       {
         key: { type: String, required: true },
@@ -48,6 +85,16 @@ const UserStatsSchema = new Schema<IUserStats & { userId: string }>(
         artistImage: { type: String },
       },
     ],
+    topAlbums: [
+      {
+        name: { type: String, required: true },
+        artist: { type: String, required: true },
+        playCount: { type: Number, required: true },
+        totalDuration: { type: Number, required: true },
+        uniqueSongs: { type: Number, required: true },
+        thumbnail: { type: String },
+      },
+    ],
     newArtistsThisMonth: { type: Number, default: 0 },
     totalNewArtists: { type: Number, default: 0 },
     // Song Age statistics (Spotify Wrapped style)
@@ -72,6 +119,43 @@ const UserStatsSchema = new Schema<IUserStats & { userId: string }>(
       year: { type: Number },
     },
     songsWithYearCount: { type: Number, default: 0 },
+    listeningHeatmap: {
+      playCount: { type: [[Number]], default: undefined },
+      totalDuration: { type: [[Number]], default: undefined },
+    },
+    dailyListening: [
+      {
+        _id: false,
+        date: { type: String, required: true },
+        playCount: { type: Number, default: 0 },
+        totalDuration: { type: Number, default: 0 },
+        topSong: {
+          title: { type: String },
+          artist: { type: String },
+          playCount: { type: Number },
+        },
+      },
+    ],
+    genreDistribution: [
+      {
+        _id: false,
+        genre: { type: String, required: true },
+        playCount: { type: Number, default: 0 },
+        totalDuration: { type: Number, default: 0 },
+        percentage: { type: Number, default: 0 },
+      },
+    ],
+    monthlyTrends: [
+      {
+        _id: false,
+        month: { type: String, required: true },
+        playCount: { type: Number, default: 0 },
+        totalDuration: { type: Number, default: 0 },
+        uniqueSongs: { type: Number, default: 0 },
+        uniqueArtists: { type: Number, default: 0 },
+        newArtists: { type: Number, default: 0 },
+      },
+    ],
   },
   {
     timestamps: true,
@@ -0,0 +1,230 @@
+/**
+ * Metadata provider chain
+ *
+ * Asks every provider about each video, then asks the providers that can
+ * search by name about the videos they didn't recognise, using the artist
+ * and title the others found - or, when none did, the ones the video was
+ * played under. Each field of the result comes from the first
+ * provider in its precedence that has a value.
+ */
+
+import type { ISong } from "@/lib/types/database";
+import type {
+  ArtistTitleQuery,
+  FieldPrecedence,
+  MetadataField,
+  MetadataLookup,
+  MetadataProvider,
+  SongMetadata,
+  VideoUnavailability,
+} from "@/lib/types/metadata";
+import { getQueryKey } from "./keys";
+
+const METADATA_FIELDS: MetadataField[] = [
+  "title",
+  "artist",
+  "channelTitle",
+  "duration",
+  "thumbnail",
+  "artistImage",
+  "releaseDate",
+  "album",
+  "genres",
+];
+
+/**
+ * Looks songs up through a chain of providers
+ */
+export interface ProviderChain {
+  /** Names of the providers, in chain order */
+  providers: string[];
+  /**
+   * @param options.playedNames - Artist and title each video was played
+   * under, by video ID
+   * @param options.skip - Providers not to ask this time, whose videos are
+   * left unresolved rather than not found
+   */
+  lookup(
+    videoIds: string[],
+    options?: {
+      playedNames?: Map<string, ArtistTitleQuery>;
+      skip?: string[];
+    },
+  ): Promise<MetadataLookup>;
+}
+
+function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== "";
+}
+
+/**
+ * Merge what each provider found for a song, field by field
+ *
+ * @param found - Metadata by provider name
+ * @param order - Provider names in chain order
+ */
+export function mergeMetadata(
+  found: Map<string, SongMetadata>,
+  order: string[],
+  precedence: FieldPrecedence = {},
+): SongMetadata {
+  const merged: Record<string, unknown> = {};
+
+  for (const field of METADATA_FIELDS) {
+    const preferred = precedence[field] ?? [];
+    const names = [
+      ...preferred,
+      ...order.filter((name) => !preferred.includes(name)),
+    ];
+
+    for (const name of names) {
+      const value = found.get(name)?.[field];
+      if (hasValue(value)) {
+        merged[field] = value;
+        break;
+      }
+    }
+  }
+
+  return merged as SongMetadata;
+}
+
+/**
+ * Chain providers, earlier ones winning fields without a precedence
+ */
+export function createProviderChain(
+  providers: MetadataProvider[],
+  precedence: FieldPrecedence = {},
+): ProviderChain {
+  const order = providers.map((provider) => provider.name);
+
+  async function lookup(
+    videoIds: string[],
+    {
+      playedNames = new Map(),
+      skip = [],
+    }: { playedNames?: Map<string, ArtistTitleQuery>; skip?: string[] } = {},
+  ): Promise<MetadataLookup> {
+    // Metadata by video ID, then provider name
+    const found = new Map<string, Map<string, SongMetadata>>();
+    const failed = new Set<string>();
+    const unavailable = new Map<string, VideoUnavailability>();
+    let quotaExhausted = false;
+
+    const record = (
+      videoId: string,
+      provider: string,
+      metadata: SongMetadata,
+    ) => {
+      let results = found.get(videoId);
+      if (!results) {
+        results = new Map();
+        found.set(videoId, results);
+      }
+      results.set(provider, metadata);
+    };
+
+    for (const provider of providers) {
+      if (skip.includes(provider.name)) {
+        for (const videoId of videoIds) {
+          failed.add(videoId);
+        }
+        continue;
+      }
+
+      try {
+        const result = await provider.lookupByVideoIds(videoIds);
+        for (const [videoId, metadata] of result.songs) {
+          record(videoId, provider.name, metadata);
+        }
+        for (const videoId of result.failedIds) {
+          failed.add(videoId);
+        }
+        for (const [videoId, reason] of result.unavailable ?? []) {
+          // A private video isn't gone, whatever another provider says
+          if (unavailable.get(videoId) !== "private") {
+            unavailable.set(videoId, reason);
+          }
+        }
+        quotaExhausted ||= Boolean(result.quotaExhausted);
+      } catch (error) {
+        console.error(`Metadata provider "${provider.name}" failed:`, error);
+        for (const videoId of videoIds) {
+          failed.add(videoId);
+        }
+      }
+    }
+
+    // Fill in from providers that search by name, for videos they didn't
+    // know by ID, named by the other providers or else by the plays
+    for (const provider of providers) {
+      if (!provider.lookupByArtistTitle || skip.includes(provider.name)) {
+        continue;
+      }
+
+      const queries = new Map<string, ArtistTitleQuery>();
+      for (const videoId of videoIds) {
+        const results = found.get(videoId);
+        if (results?.has(provider.name)) continue;
+
+        const named = results
+          ? mergeMetadata(results, order, precedence)
+          : undefined;
+        const query =
+          named?.artist && named.title
+            ? { artist: named.artist, title: named.title }
+            : playedNames.get(videoId);
+        if (query) {
+          queries.set(videoId, query);
+        }
+      }
+      if (queries.size === 0) continue;
+
+      try {
+        const matches = await provider.lookupByArtistTitle(
+          Array.from(queries.values()),
+        );
+        for (const [videoId, query] of queries) {
+          const metadata = matches.get(getQueryKey(query));
+          if (metadata) record(videoId, provider.name, metadata);
+        }
+      } catch (error) {
+        console.error(`Metadata provider "${provider.name}" failed:`, error);
+      }
+    }
+
+    const songs = new Map<string, ISong>();
+    for (const [videoId, results] of found) {
+      const { title, artist, duration, ...rest } = mergeMetadata(
+        results,
+        order,
+        precedence,
+      );
+      // Songs need at least these to be worth caching
+      if (!title || !artist || !duration) continue;
+
+      songs.set(videoId, {
+        ...rest,
+        key: `${artist.toLowerCase()} - ${title.toLowerCase()}`,
+        youtubeId: videoId,
+        title,
+        artist,
+        duration,
+      });
+    }
+
+    return {
+      songs,
+      unresolvedIds: videoIds.filter(
+        (videoId) => failed.has(videoId) && !songs.has(videoId),
+      ),
+      unavailable: new Map(
+        Array.from(unavailable).filter(([videoId]) => !songs.has(videoId)),
+      ),
+      quotaExhausted,
+    };
+  }
+
+  return { providers: order, lookup };
+}
@@ -0,0 +1,55 @@
+/**
+ * Offline metadata provider
+ *
+ * Serves songs from a JSON fixture file (an array of `FixtureSong`), for
+ * developing and testing without API keys or network access.
+ */
+
+import { readFile } from "node:fs/promises";
+import type {
+  FixtureSong,
+  MetadataProvider,
+  SongMetadata,
+} from "@/lib/types/metadata";
+import { createIndexedProvider, type SongIndex } from "./indexed";
+import { getQueryKey } from "./keys";
+
+function indexFixtures(fixtures: FixtureSong[]): SongIndex {
+  const index: SongIndex = { byVideoId: new Map(), byQueryKey: new Map() };
+
+  for (const { videoId, releaseDate, ...fields } of fixtures) {
+    const metadata: SongMetadata = {
+      ...fields,
+      releaseDate: releaseDate ? new Date(releaseDate) : undefined,
+    };
+
+    if (videoId) {
+      index.byVideoId.set(videoId, metadata);
+    }
+    if (metadata.artist && metadata.title) {
+      index.byQueryKey.set(
+        getQueryKey({ artist: metadata.artist, title: metadata.title }),
+        metadata,
+      );
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Create a provider serving fixture songs
+ *
+ * @param source - Path of a JSON fixture file, or the fixtures themselves
+ */
+export function createFixtureProvider(
+  source: string | FixtureSong[],
+): MetadataProvider {
+  return createIndexedProvider("fixtures", async () => {
+    const fixtures: FixtureSong[] =
+      typeof source === "string"
+        ? JSON.parse(await readFile(source, "utf8"))
+        : source;
+    return indexFixtures(fixtures);
+  });
+}
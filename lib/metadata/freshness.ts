@@ -0,0 +1,98 @@
+/**
+ * Song cache freshness
+ *
+ * Each field of a cached song has a maximum age, after which the song is
+ * looked up again: image URLs go dead, channels get renamed and artist
+ * names corrected, while durations and release dates hardly ever change.
+ * Songs cached before `lastFetchedAt` was recorded are as old as their
+ * last update.
+ */
+
+import type { ISong } from "@/lib/types/database";
+import type { MetadataField } from "@/lib/types/metadata";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** How long each field stays fresh, in days */
+export const FIELD_MAX_AGE: Record<MetadataField, number> = {
+  thumbnail: 30,
+  artistImage: 30,
+  title: 90,
+  artist: 90,
+  channelTitle: 90,
+  album: 180,
+  genres: 180,
+  duration: 365,
+  releaseDate: 365,
+};
+
+/**
+ * Days before looking for a field that should be there but wasn't found,
+ * so songs a provider can't complete aren't asked about on every lookup
+ */
+export const MISSING_FIELD_MAX_AGE = 7;
+
+/**
+ * Days before checking again on a video that couldn't be found, in case
+ * it comes back
+ */
+export const UNAVAILABLE_MAX_AGE = 30;
+
+type CachedSong = Pick<
+  ISong,
+  MetadataField | "lastFetchedAt" | "fetchStatus" | "updatedAt"
+>;
+
+/**
+ * Fields a cached song should have. Albums only come with art tracks,
+ * which YouTube Music puts on "Topic" channels.
+ */
+function getExpectedFields(song: CachedSong): MetadataField[] {
+  const fields: MetadataField[] = ["thumbnail"];
+  if (/\s-\sTopic$/i.test(song.channelTitle || "")) {
+    fields.push("album");
+  }
+  return fields;
+}
+
+function hasValue(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return value !== undefined && value !== null && value !== "";
+}
+
+/**
+ * Fields of a cached song that are due to be looked up again
+ */
+export function getStaleFields(
+  song: CachedSong,
+  now: Date = new Date(),
+): MetadataField[] {
+  const fetchedAt = song.lastFetchedAt ?? song.updatedAt;
+  const age = fetchedAt
+    ? (now.getTime() - new Date(fetchedAt).getTime()) / DAY
+    : Number.POSITIVE_INFINITY;
+
+  // Nothing to refresh on a video that's gone until it's worth checking
+  // whether it came back
+  if (song.fetchStatus && song.fetchStatus !== "ok") {
+    return age > UNAVAILABLE_MAX_AGE
+      ? (Object.keys(FIELD_MAX_AGE) as MetadataField[])
+      : [];
+  }
+
+  const expected = getExpectedFields(song);
+
+  return (Object.keys(FIELD_MAX_AGE) as MetadataField[]).filter((field) => {
+    if (!hasValue(song[field])) {
+      return expected.includes(field) && age > MISSING_FIELD_MAX_AGE;
+    }
+    return age > FIELD_MAX_AGE[field];
+  });
+}
+
+/**
+ * Whether a cached song is due to be looked up again
+ */
+export function isSongStale(song: CachedSong, now: Date = new Date()): boolean {
+  return getStaleFields(song, now).length > 0;
+}
@@ -0,0 +1,179 @@
+/**
+ * Genre inference
+ *
+ * YouTube has no genre field, so genres are pieced together from a video's
+ * topic categories (Wikipedia links), its tags, and a local table of
+ * well-known artists. Genres are always one of `GENRES`.
+ */
+
+export const GENRES = [
+  "Pop",
+  "Hip-Hop",
+  "R&B",
+  "Rock",
+  "Metal",
+  "Electronic",
+  "Latin",
+  "K-Pop",
+  "J-Pop",
+  "Indie",
+  "Country",
+  "Jazz",
+  "Classical",
+  "Soul",
+  "Reggae",
+  "Folk",
+  "Christian",
+  "Soundtrack",
+  "Bollywood",
+] as const;
+
+export type Genre = (typeof GENRES)[number];
+
+// Most genres a song is tagged with
+const MAX_GENRES = 3;
+
+// Wikipedia article names YouTube uses as music topic categories
+const TOPIC_GENRES: Record<string, Genre> = {
+  Pop_music: "Pop",
+  Hip_hop_music: "Hip-Hop",
+  Rhythm_and_blues: "R&B",
+  Rock_music: "Rock",
+  Heavy_metal_music: "Metal",
+  Electronic_music: "Electronic",
+  Music_of_Latin_America: "Latin",
+  Independent_music: "Indie",
+  Country_music: "Country",
+  Jazz: "Jazz",
+  Classical_music: "Classical",
+  Soul_music: "Soul",
+  Reggae: "Reggae",
+  Christian_music: "Christian",
+  Soundtrack: "Soundtrack",
+  Music_of_Bollywood: "Bollywood",
+};
+
+// Tag keywords, checked in order - more specific genres come first
+const TAG_GENRES: [RegExp, Genre][] = [
+  [/\bk-?pop\b/, "K-Pop"],
+  [/\bj-?pop\b|\banime\b/, "J-Pop"],
+  [/\bhip[\s-]?hop\b|\brap\b|\btrap\b|\bdrill\b/, "Hip-Hop"],
+  [/\br&b\b|\brnb\b/, "R&B"],
+  [/\bmetal\b|\bmetalcore\b/, "Metal"],
+  [/\brock\b|\bpunk\b|\bgrunge\b/, "Rock"],
+  [
+    /\bedm\b|\bhouse\b|\btechno\b|\btrance\b|\bdubstep\b|\belectronic\b/,
+    "Electronic",
+  ],
+  [/\breggaeton\b|\blatin\b|\bbachata\b|\bsalsa\b|\bcumbia\b/, "Latin"],
+  [/\bindie\b/, "Indie"],
+  [/\bcountry\b/, "Country"],
+  [/\bjazz\b/, "Jazz"],
+  [/\bclassical\b|\borchestra\b|\bpiano sonata\b/, "Classical"],
+  [/\bsoul\b|\bfunk\b/, "Soul"],
+  [/\breggae\b|\bdancehall\b/, "Reggae"],
+  [/\bfolk\b|\bacoustic\b/, "Folk"],
+  [/\bworship\b|\bgospel\b|\bchristian\b/, "Christian"],
+  [/\bsoundtrack\b|\bost\b|\bscore\b/, "Soundtrack"],
+  [/\bbollywood\b/, "Bollywood"],
+  // Not the "pop" of "k-pop" or "j-pop"
+  [/(?<![kj]-)\bpop\b/, "Pop"],
+];
+
+// Genres of artists that are often uploaded without topics or tags,
+// keyed by lowercased artist name
+const ARTIST_GENRES: Record<string, Genre[]> = {
+  "taylor swift": ["Pop", "Country"],
+  "ed sheeran": ["Pop"],
+  "ariana grande": ["Pop", "R&B"],
+  "billie eilish": ["Pop", "Indie"],
+  "dua lipa": ["Pop", "Electronic"],
+  "the weeknd": ["R&B", "Pop"],
+  "harry styles": ["Pop"],
+  "olivia rodrigo": ["Pop", "Rock"],
+  "sabrina carpenter": ["Pop"],
+  "bruno mars": ["Pop", "R&B"],
+  drake: ["Hip-Hop", "R&B"],
+  "kendrick lamar": ["Hip-Hop"],
+  "travis scott": ["Hip-Hop"],
+  "kanye west": ["Hip-Hop"],
+  eminem: ["Hip-Hop"],
+  "j. cole": ["Hip-Hop"],
+  "post malone": ["Hip-Hop", "Pop"],
+  sza: ["R&B"],
+  "frank ocean": ["R&B"],
+  beyoncé: ["R&B", "Pop"],
+  rihanna: ["Pop", "R&B"],
+  "bad bunny": ["Latin"],
+  "karol g": ["Latin"],
+  shakira: ["Latin", "Pop"],
+  "j balvin": ["Latin"],
+  bts: ["K-Pop"],
+  blackpink: ["K-Pop"],
+  "stray kids": ["K-Pop"],
+  newjeans: ["K-Pop"],
+  twice: ["K-Pop"],
+  yoasobi: ["J-Pop"],
+  "kenshi yonezu": ["J-Pop"],
+  "arctic monkeys": ["Rock", "Indie"],
+  coldplay: ["Rock", "Pop"],
+  "imagine dragons": ["Rock", "Pop"],
+  "linkin park": ["Rock", "Metal"],
+  queen: ["Rock"],
+  "the beatles": ["Rock", "Pop"],
+  metallica: ["Metal"],
+  "tame impala": ["Indie", "Rock"],
+  "daft punk": ["Electronic"],
+  "calvin harris": ["Electronic", "Pop"],
+  avicii: ["Electronic"],
+  "david guetta": ["Electronic"],
+  "morgan wallen": ["Country"],
+  "zach bryan": ["Country", "Folk"],
+  "bob marley & the wailers": ["Reggae"],
+  "hans zimmer": ["Soundtrack"],
+  "ludovico einaudi": ["Classical"],
+  "arijit singh": ["Bollywood"],
+};
+
+/**
+ * Infer up to three genres for a song, most certain first
+ *
+ * @param source.topicCategories - Wikipedia URLs from the video's `topicDetails`
+ * @param source.tags - The video's tags
+ * @param source.artist - Resolved artist name
+ */
+export function inferGenres({
+  topicCategories = [],
+  tags = [],
+  artist,
+}: {
+  topicCategories?: string[];
+  tags?: string[];
+  artist?: string;
+}): Genre[] {
+  const genres = new Set<Genre>();
+
+  for (const url of topicCategories) {
+    const genre = TOPIC_GENRES[url.split("/wiki/")[1] ?? ""];
+    if (genre) genres.add(genre);
+  }
+
+  for (const genre of getArtistGenres(artist)) {
+    genres.add(genre);
+  }
+
+  // Tags are free text, so they only fill in what's still missing
+  const tagText = tags.join(" | ").toLowerCase();
+  for (const [pattern, genre] of TAG_GENRES) {
+    if (pattern.test(tagText)) genres.add(genre);
+  }
+
+  return Array.from(genres).slice(0, MAX_GENRES);
+}
+
+/**
+ * Genres of an artist from the local mapping table
+ */
+export function getArtistGenres(artist?: string): Genre[] {
+  return artist ? (ARTIST_GENRES[artist.toLowerCase().trim()] ?? []) : [];
+}
@@ -0,0 +1,80 @@
+/**
+ * Song metadata providers
+ *
+ * The chain is configured from the environment:
+ * - `METADATA_FIXTURES_PATH` - JSON fixture file for offline use
+ * - `YOUTUBE_API_KEY` - the YouTube Data API
+ * - `MUSICBRAINZ_DUMP_PATH` - a local MusicBrainz recording dump
+ */
+
+import type { FieldPrecedence, MetadataProvider } from "@/lib/types/metadata";
+import { createProviderChain, type ProviderChain } from "./chain";
+import { createFixtureProvider } from "./fixtures";
+import { createMusicBrainzProvider } from "./musicbrainz";
+import { createYouTubeProvider } from "./youtube";
+
+export {
+  createProviderChain,
+  mergeMetadata,
+  type ProviderChain,
+} from "./chain";
+export { createFixtureProvider } from "./fixtures";
+export {
+  FIELD_MAX_AGE,
+  getStaleFields,
+  isSongStale,
+  MISSING_FIELD_MAX_AGE,
+  UNAVAILABLE_MAX_AGE,
+} from "./freshness";
+export {
+  GENRES,
+  type Genre,
+  getArtistGenres,
+  inferGenres,
+} from "./genres";
+export { getQueryKey, normalizeName } from "./keys";
+export { createMusicBrainzProvider } from "./musicbrainz";
+export { createYouTubeProvider } from "./youtube";
+
+/**
+ * Where each field comes from when several providers know a song. YouTube
+ * only knows when a video was uploaded and guesses genres, while the
+ * duration that matters is the one of the video actually played.
+ */
+export const DEFAULT_PRECEDENCE: FieldPrecedence = {
+  duration: ["youtube", "musicbrainz"],
+  releaseDate: ["musicbrainz", "youtube"],
+  album: ["musicbrainz", "youtube"],
+  genres: ["musicbrainz", "youtube"],
+};
+
+let chain: ProviderChain | null | undefined;
+
+/**
+ * The provider chain configured for this server, or null when there are
+ * no providers to ask
+ */
+export function getMetadataChain(): ProviderChain | null {
+  if (chain !== undefined) return chain;
+
+  const providers: MetadataProvider[] = [];
+
+  // Fixtures come first so they can stand in for any other source
+  if (process.env.METADATA_FIXTURES_PATH) {
+    providers.push(createFixtureProvider(process.env.METADATA_FIXTURES_PATH));
+  }
+  if (process.env.YOUTUBE_API_KEY) {
+    providers.push(createYouTubeProvider(process.env.YOUTUBE_API_KEY));
+  }
+  if (process.env.MUSICBRAINZ_DUMP_PATH) {
+    providers.push(
+      createMusicBrainzProvider(process.env.MUSICBRAINZ_DUMP_PATH),
+    );
+  }
+
+  chain =
+    providers.length > 0
+      ? createProviderChain(providers, DEFAULT_PRECEDENCE)
+      : null;
+  return chain;
+}
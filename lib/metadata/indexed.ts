@@ -0,0 +1,70 @@
+/**
+ * Providers serving songs from an in-memory index
+ *
+ * Shared by the providers that load a local source once (fixtures, a
+ * MusicBrainz dump) and answer every lookup from it.
+ */
+
+import type {
+  ArtistTitleQuery,
+  MetadataProvider,
+  ProviderLookup,
+  SongMetadata,
+} from "@/lib/types/metadata";
+import { getQueryKey } from "./keys";
+
+export interface SongIndex {
+  byVideoId: Map<string, SongMetadata>;
+  /** Songs by `getQueryKey` of their artist and title */
+  byQueryKey: Map<string, SongMetadata>;
+}
+
+/**
+ * Create a provider answering lookups from an index
+ *
+ * @param load - Builds the index, on the first lookup
+ */
+export function createIndexedProvider(
+  name: string,
+  load: () => Promise<SongIndex>,
+): MetadataProvider {
+  let index: Promise<SongIndex> | undefined;
+
+  function getIndex(): Promise<SongIndex> {
+    // A source that failed to load is tried again on the next lookup
+    index ??= load().catch((error) => {
+      index = undefined;
+      throw error;
+    });
+    return index;
+  }
+
+  async function lookupByVideoIds(videoIds: string[]): Promise<ProviderLookup> {
+    const { byVideoId } = await getIndex();
+    const songs = new Map<string, SongMetadata>();
+
+    for (const videoId of videoIds) {
+      const metadata = byVideoId.get(videoId);
+      if (metadata) songs.set(videoId, metadata);
+    }
+
+    return { songs, failedIds: [] };
+  }
+
+  async function lookupByArtistTitle(
+    queries: ArtistTitleQuery[],
+  ): Promise<Map<string, SongMetadata>> {
+    const { byQueryKey } = await getIndex();
+    const songs = new Map<string, SongMetadata>();
+
+    for (const query of queries) {
+      const key = getQueryKey(query);
+      const metadata = byQueryKey.get(key);
+      if (metadata) songs.set(key, metadata);
+    }
+
+    return songs;
+  }
+
+  return { name, lookupByVideoIds, lookupByArtistTitle };
+}
@@ -0,0 +1,27 @@
+import type { ArtistTitleQuery } from "@/lib/types/metadata";
+
+/**
+ * Normalize an artist or title for matching across sources
+ *
+ * Drops case, accents, bracketed extras like "(Official Video)", featured
+ * artists and punctuation, so "Beyoncé - Halo [Live]" and "beyonce halo"
+ * compare equal.
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[([{].*?[)\]}]/g, " ")
+    .replace(/\s(?:feat|ft|featuring)\.?\s.*$/, " ")
+    .replace(/&/g, " and ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Key an artist/title lookup is stored under
+ */
+export function getQueryKey({ artist, title }: ArtistTitleQuery): string {
+  return `${normalizeName(artist)} - ${normalizeName(title)}`;
+}
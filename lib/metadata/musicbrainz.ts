@@ -0,0 +1,119 @@
+/**
+ * MusicBrainz metadata provider
+ *
+ * Reads a locally loaded dump of MusicBrainz recordings - one JSON
+ * recording per line, as in the JSON data dumps or saved
+ * `/ws/2/recording?fmt=json&inc=artist-credits+releases+genres+tags+url-rels`
+ * responses - so lookups never leave the server. Recordings are matched by
+ * their YouTube URL relationships, or by artist and title.
+ */
+
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+import type { MetadataProvider, SongMetadata } from "@/lib/types/metadata";
+import { inferGenres } from "./genres";
+import { createIndexedProvider, type SongIndex } from "./indexed";
+import { getQueryKey } from "./keys";
+
+// The subset of a MusicBrainz recording the provider reads
+interface MusicBrainzRecording {
+  id: string;
+  title: string;
+  /** Length in milliseconds */
+  length?: number | null;
+  "first-release-date"?: string;
+  "artist-credit"?: { name: string; joinphrase?: string }[];
+  releases?: { id: string; title: string; date?: string }[];
+  genres?: { name: string }[];
+  tags?: { name: string }[];
+  relations?: { url?: { resource: string } }[];
+}
+
+const YOUTUBE_URL =
+  /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([\w-]{11})/;
+
+function toMetadata(recording: MusicBrainzRecording): SongMetadata {
+  const artist = (recording["artist-credit"] ?? [])
+    .map((credit) => credit.name + (credit.joinphrase ?? ""))
+    .join("")
+    .trim();
+  const releaseDate = recording["first-release-date"];
+  // Prefer the release the recording first came out on
+  const release =
+    recording.releases?.find(
+      (candidate) => releaseDate && candidate.date === releaseDate,
+    ) ?? recording.releases?.[0];
+  const genres = inferGenres({
+    tags: [...(recording.genres ?? []), ...(recording.tags ?? [])].map(
+      (tag) => tag.name,
+    ),
+    artist,
+  });
+
+  return {
+    title: recording.title,
+    artist: artist || undefined,
+    duration: recording.length
+      ? Math.round(recording.length / 1000)
+      : undefined,
+    releaseDate: releaseDate ? new Date(releaseDate) : undefined,
+    album: release?.title,
+    genres: genres.length > 0 ? genres : undefined,
+  };
+}
+
+async function loadDump(dumpPath: string): Promise<SongIndex> {
+  const index: SongIndex = {
+    byVideoId: new Map(),
+    byQueryKey: new Map(),
+  };
+  const lines = createInterface({
+    input: createReadStream(dumpPath),
+    crlfDelay: Number.POSITIVE_INFINITY,
+  });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    let recording: MusicBrainzRecording;
+    try {
+      recording = JSON.parse(line);
+    } catch {
+      continue; // Skip malformed lines rather than the whole dump
+    }
+
+    const metadata = toMetadata(recording);
+
+    for (const relation of recording.relations ?? []) {
+      const videoId = relation.url?.resource.match(YOUTUBE_URL)?.[1];
+      if (videoId) index.byVideoId.set(videoId, metadata);
+    }
+
+    if (metadata.artist) {
+      const key = getQueryKey({
+        artist: metadata.artist,
+        title: recording.title,
+      });
+      // Keep the first recording of a song that knows its length
+      const existing = index.byQueryKey.get(key);
+      if (!existing || (!existing.duration && metadata.duration)) {
+        index.byQueryKey.set(key, metadata);
+      }
+    }
+  }
+
+  console.log(
+    `Loaded MusicBrainz dump: ${index.byQueryKey.size} songs, ${index.byVideoId.size} linked videos`,
+  );
+  return index;
+}
+
+/**
+ * Create a provider backed by a MusicBrainz recording dump
+ *
+ * The dump is read on the first lookup and kept in memory, so it should be
+ * filtered down to the recordings that matter rather than the full dump.
+ */
+export function createMusicBrainzProvider(dumpPath: string): MetadataProvider {
+  return createIndexedProvider("musicbrainz", () => loadDump(dumpPath));
+}
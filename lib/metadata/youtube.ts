@@ -0,0 +1,372 @@
+/**
+ * YouTube Data API metadata provider
+ *
+ * Looks songs up by video ID only - searching by name costs 100 quota units
+ * a request. Every request is charged to the daily quota, and rate limits
+ * and server errors are retried with backoff. Videos the API doesn't return
+ * are checked with oEmbed, which costs no quota, to tell private videos
+ * from removed ones.
+ */
+
+import {
+  cleanArtistName,
+  extractAlbumFromDescription,
+  extractArtistFromTitle,
+  isGenericArtist,
+} from "@/lib/client/parser";
+import { markQuotaExhausted, spendQuota } from "@/lib/services/youtube-quota";
+import type {
+  MetadataProvider,
+  ProviderLookup,
+  SongMetadata,
+  VideoUnavailability,
+} from "@/lib/types/metadata";
+import { inferGenres } from "./genres";
+
+const YOUTUBE_BATCH_SIZE = 50; // YouTube API limit per request
+const MAX_RETRIES = 4; // Retries for rate-limited or failed requests
+const BASE_RETRY_DELAY = 500; // ms, doubled on every retry
+const MAX_RETRY_DELAY = 30000; // ms, so a lookup never stalls for long
+
+// 403 reasons that mean the daily quota is gone rather than a rate limit
+const QUOTA_REASONS = new Set(["quotaExceeded", "dailyLimitExceeded"]);
+
+const OEMBED_URL = "https://www.youtube.com/oembed?format=json&url=";
+const MAX_AVAILABILITY_CHECKS = 20; // oEmbed checks per lookup, the rest wait
+const AVAILABILITY_CONCURRENCY = 5; // oEmbed checks in flight at once
+const AVAILABILITY_TIMEOUT = 5000; // ms per oEmbed check
+
+type YouTubeThumbnails = Record<string, { url: string }>;
+
+// The parts of the API payloads the provider reads
+interface YouTubeVideo {
+  id: string;
+  contentDetails?: { duration?: string };
+  snippet?: {
+    title?: string;
+    description?: string;
+    channelId?: string;
+    channelTitle?: string;
+    publishedAt?: string;
+    tags?: string[];
+    thumbnails?: YouTubeThumbnails;
+  };
+  topicDetails?: { topicCategories?: string[] };
+}
+
+interface YouTubeChannel {
+  id: string;
+  snippet?: { thumbnails?: YouTubeThumbnails };
+}
+
+interface YouTubeListResponse<T> {
+  items?: T[];
+}
+
+interface YouTubeErrorResponse {
+  error?: { errors?: { reason?: string }[] };
+}
+
+/**
+ * Outcome of a YouTube Data API request
+ */
+type YouTubeResponse<T> =
+  | { status: "ok"; data: YouTubeListResponse<T> }
+  | { status: "quota-exhausted" }
+  | { status: "failed" };
+
+/**
+ * Parse ISO 8601 duration to seconds
+ * Example: PT4M13S -> 253 seconds
+ */
+function parseISO8601Duration(duration: string): number {
+  const match = duration.match(/PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?/);
+  if (!match) return 210; // Default 3.5 min if parsing fails
+
+  const hours = Number.parseInt(match[1] || "0", 10);
+  const minutes = Number.parseInt(match[2] || "0", 10);
+  const seconds = Number.parseInt(match[3] || "0", 10);
+
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Get the best available thumbnail URL
+ */
+function getBestThumbnail(
+  thumbnails: YouTubeThumbnails | undefined,
+): string | undefined {
+  if (!thumbnails) return undefined;
+
+  // Priority: maxres > high > medium > default
+  const priority = ["maxres", "high", "medium", "default"];
+
+  for (const size of priority) {
+    if (thumbnails[size]?.url) {
+      return thumbnails[size].url;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Delay before retry `attempt` (0-based), honouring a `Retry-After` header
+ */
+function getRetryDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds)) {
+    return Math.min(seconds * 1000, MAX_RETRY_DELAY);
+  }
+  // Exponential backoff with jitter so parallel uploads don't retry in step
+  return Math.min(
+    BASE_RETRY_DELAY * 2 ** attempt * (1 + Math.random()),
+    MAX_RETRY_DELAY,
+  );
+}
+
+/**
+ * Call a YouTube Data API list endpoint, charging the quota for each
+ * request and retrying rate limits and server errors with backoff
+ */
+async function callYouTubeAPI<T>(url: string): Promise<YouTubeResponse<T>> {
+  for (let attempt = 0; ; attempt++) {
+    // Every list request costs one unit, retries included
+    if (!(await spendQuota(1))) {
+      return { status: "quota-exhausted" };
+    }
+
+    let response: Response | undefined;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      console.error("YouTube API request failed:", error);
+    }
+
+    if (response?.ok) {
+      return { status: "ok", data: await response.json() };
+    }
+
+    if (response?.status === 403) {
+      const body: YouTubeErrorResponse = await response
+        .json()
+        .catch(() => ({}));
+      const reason = body.error?.errors?.[0]?.reason;
+      if (reason && QUOTA_REASONS.has(reason)) {
+        console.warn("YouTube API quota exhausted");
+        await markQuotaExhausted();
+        return { status: "quota-exhausted" };
+      }
+      if (
+        reason !== "rateLimitExceeded" &&
+        reason !== "userRateLimitExceeded"
+      ) {
+        console.error(`YouTube API error: 403 ${reason ?? ""}`);
+        return { status: "failed" };
+      }
+    } else if (response && response.status !== 429 && response.status < 500) {
+      console.error(`YouTube API error: ${response.status}`);
+      return { status: "failed" };
+    }
+
+    if (attempt >= MAX_RETRIES) {
+      console.error(
+        `YouTube API still failing after ${MAX_RETRIES} retries: ${response?.status ?? "network error"}`,
+      );
+      return { status: "failed" };
+    }
+
+    await new Promise((resolve) =>
+      setTimeout(
+        resolve,
+        getRetryDelay(attempt, response?.headers.get("retry-after") ?? null),
+      ),
+    );
+  }
+}
+
+/**
+ * Find out why the Data API didn't return a video - oEmbed answers 401 or
+ * 403 for private videos and 404 for removed ones
+ *
+ * @returns null when the video looks fine or the check failed
+ */
+async function checkAvailability(
+  videoId: string,
+): Promise<VideoUnavailability | null> {
+  try {
+    const response = await fetch(
+      OEMBED_URL +
+        encodeURIComponent(`https://www.youtube.com/watch?v=${videoId}`),
+      { signal: AbortSignal.timeout(AVAILABILITY_TIMEOUT) },
+    );
+    if (response.status === 401 || response.status === 403) return "private";
+    if (response.status === 404) return "removed";
+  } catch (error) {
+    console.error(`oEmbed check failed for ${videoId}:`, error);
+  }
+  return null;
+}
+
+/**
+ * Create a provider backed by the YouTube Data API
+ */
+export function createYouTubeProvider(apiKey: string): MetadataProvider {
+  /**
+   * Fetch video metadata from YouTube Data API
+   *
+   * Stops at the first quota-exhausted response - the IDs left over are
+   * returned as failed along with any from batches that kept failing.
+   */
+  async function lookupByVideoIds(videoIds: string[]): Promise<ProviderLookup> {
+    const results = new Map<string, SongMetadata>();
+    const failedIds: string[] = [];
+    // Videos in answered batches that the API left out
+    const missingIds: string[] = [];
+    let quotaExhausted = false;
+
+    // Collect unique channel IDs for artist images
+    const channelIds = new Set<string>();
+    const videoChannelMap = new Map<string, string>();
+
+    // Process in batches of 50 (YouTube API limit)
+    for (let i = 0; i < videoIds.length; i += YOUTUBE_BATCH_SIZE) {
+      const batchIds = videoIds.slice(i, i + YOUTUBE_BATCH_SIZE);
+      const idsParam = batchIds.join(",");
+
+      try {
+        const response = await callYouTubeAPI<YouTubeVideo>(
+          `https://www.googleapis.com/youtube/v3/videos?` +
+            `part=contentDetails,snippet,topicDetails&id=${idsParam}&key=${apiKey}`,
+        );
+
+        if (response.status === "quota-exhausted") {
+          quotaExhausted = true;
+          failedIds.push(...videoIds.slice(i));
+          break;
+        }
+
+        if (response.status === "failed") {
+          failedIds.push(...batchIds);
+          continue;
+        }
+
+        for (const item of response.data.items || []) {
+          const duration = parseISO8601Duration(
+            item.contentDetails?.duration || "PT0S",
+          );
+          const channelTitle = item.snippet?.channelTitle || "";
+          const channelId = item.snippet?.channelId;
+          const videoTitle = item.snippet?.title || "";
+          const thumbnail = getBestThumbnail(item.snippet?.thumbnails);
+          const publishedAt = item.snippet?.publishedAt;
+          const releaseDate = publishedAt ? new Date(publishedAt) : undefined;
+          const album =
+            extractAlbumFromDescription(item.snippet?.description || "") ||
+            undefined;
+
+          // Track channel for artist image fetch
+          if (channelId) {
+            channelIds.add(channelId);
+            videoChannelMap.set(item.id, channelId);
+          }
+
+          // Clean up artist name
+          let artist = cleanArtistName(channelTitle);
+
+          // If channel is generic like "Release", extract from title
+          if (isGenericArtist(artist)) {
+            const extracted = extractArtistFromTitle(videoTitle);
+            if (extracted) {
+              artist = extracted;
+            } else {
+              artist = "Unknown Artist";
+            }
+          }
+
+          results.set(item.id, {
+            title: videoTitle,
+            artist,
+            duration,
+            thumbnail,
+            channelTitle,
+            releaseDate,
+            album,
+            genres: inferGenres({
+              topicCategories: item.topicDetails?.topicCategories,
+              tags: item.snippet?.tags,
+              artist,
+            }),
+          });
+        }
+
+        missingIds.push(...batchIds.filter((id) => !results.has(id)));
+      } catch (error) {
+        console.error("Error fetching YouTube metadata:", error);
+        failedIds.push(...batchIds);
+      }
+    }
+
+    // Fetch channel thumbnails for artist images (batch) - these are only
+    // nice to have, so they're skipped once the quota is gone
+    if (channelIds.size > 0 && !quotaExhausted) {
+      try {
+        const channelIdsArray = Array.from(channelIds);
+        const channelThumbnails = new Map<string, string>();
+
+        for (let i = 0; i < channelIdsArray.length; i += YOUTUBE_BATCH_SIZE) {
+          const batchChannelIds = channelIdsArray.slice(
+            i,
+            i + YOUTUBE_BATCH_SIZE,
+          );
+          const channelResponse = await callYouTubeAPI<YouTubeChannel>(
+            `https://www.googleapis.com/youtube/v3/channels?` +
+              `part=snippet&id=${batchChannelIds.join(",")}&key=${apiKey}`,
+          );
+
+          if (channelResponse.status === "quota-exhausted") {
+            quotaExhausted = true;
+            break;
+          }
+
+          if (channelResponse.status === "ok") {
+            for (const channel of channelResponse.data.items || []) {
+              const artistImage = getBestThumbnail(channel.snippet?.thumbnails);
+              if (artistImage) {
+                channelThumbnails.set(channel.id, artistImage);
+              }
+            }
+          }
+        }
+
+        // Attach artist images to results
+        for (const [videoId, channelId] of videoChannelMap) {
+          const song = results.get(videoId);
+          const artistImage = channelThumbnails.get(channelId);
+          if (song && artistImage) {
+            song.artistImage = artistImage;
+          }
+        }
+      } catch (error) {
+        console.error("Error fetching channel thumbnails:", error);
+      }
+    }
+
+    // Only a few are checked, a few at a time, so long histories full of
+    // dead videos don't hold lookups up - the rest just count as not found
+    const unavailable = new Map<string, VideoUnavailability>();
+    const idsToCheck = missingIds.slice(0, MAX_AVAILABILITY_CHECKS);
+    for (let i = 0; i < idsToCheck.length; i += AVAILABILITY_CONCURRENCY) {
+      const batchIds = idsToCheck.slice(i, i + AVAILABILITY_CONCURRENCY);
+      const reasons = await Promise.all(batchIds.map(checkAvailability));
+      batchIds.forEach((videoId, index) => {
+        const reason = reasons[index];
+        if (reason) unavailable.set(videoId, reason);
+      });
+    }
+
+    return { songs: results, failedIds, unavailable, quotaExhausted };
+  }
+
+  return { name: "youtube", lookupByVideoIds };
+}
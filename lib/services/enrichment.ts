@@ -0,0 +1,321 @@
+import connectDB from "@/lib/db/connect";
+import { EnrichmentJob } from "@/lib/db/models/EnrichmentJob";
+import { Play } from "@/lib/db/models/Play";
+import type {
+  EnrichmentJobSummary,
+  EstimatedSong,
+  IEnrichmentJob,
+} from "@/lib/types/database";
+import { refreshPlays } from "./plays";
+import { lookupSongMetadata } from "./songs";
+import { calculateUserStatsInRange, updateUserStats } from "./user-stats";
+import { getQuotaReset } from "./youtube-quota";
+
+// Video IDs looked up between progress updates
+const ENRICHMENT_BATCH_SIZE = 200;
+
+// Video IDs looked up per run, so a run fits in the lifetime of the request
+// that started it - the rest of the job waits for the next run
+const ENRICHMENT_CHUNK_SIZE = 2000;
+
+// How long a run holds its job, renewed after every batch
+const ENRICHMENT_LEASE_MS = 5 * 60 * 1000;
+
+// Songs listed on a job as still using estimates
+const MAX_ESTIMATED_SONGS = 50;
+
+// Jobs hold up to 100k video IDs (and as many unresolved ones), so reads
+// that don't need the IDs leave them out
+const WITHOUT_VIDEO_IDS = { videoIds: 0, unresolvedIds: 0 };
+
+type EnrichmentJobDocument = Omit<
+  IEnrichmentJob,
+  "videoIds" | "unresolvedIds"
+> & {
+  _id: { toString(): string };
+};
+
+function toSummary(job: EnrichmentJobDocument): EnrichmentJobSummary {
+  return {
+    id: job._id.toString(),
+    status: job.status,
+    total: job.total,
+    processed: job.processed,
+    fetched: job.fetched,
+    unresolved: job.unresolved,
+    quotaExhausted: job.quotaExhausted,
+    estimatedSongs: job.estimatedSongs,
+    error: job.error,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+  };
+}
+
+/**
+ * Queue a job looking up metadata for a user's uncached songs
+ *
+ * The job is run a chunk at a time by `runEnrichmentChunk`, so histories
+ * of any size are enriched across several requests and page reloads.
+ *
+ * @param options - Time zone and session gap the stats are recalculated with
+ */
+export async function enqueueEnrichment(
+  userId: string,
+  videoIds: string[],
+  { timeZone, sessionGap }: { timeZone: string; sessionGap: number },
+): Promise<EnrichmentJobSummary> {
+  await connectDB();
+
+  const uniqueIds = [...new Set(videoIds)];
+  const job = await EnrichmentJob.create({
+    userId,
+    videoIds: uniqueIds,
+    total: uniqueIds.length,
+    timeZone,
+    sessionGap,
+  });
+
+  return toSummary(job.toObject());
+}
+
+/**
+ * Get one of a user's enrichment jobs
+ */
+export async function getEnrichmentJob(
+  userId: string,
+  jobId: string,
+): Promise<EnrichmentJobSummary | null> {
+  await connectDB();
+
+  const job = await EnrichmentJob.findOne(
+    { _id: jobId, userId },
+    WITHOUT_VIDEO_IDS,
+  ).lean<EnrichmentJobDocument>();
+
+  return job ? toSummary(job) : null;
+}
+
+/**
+ * Get a user's most recent enrichment job
+ */
+export async function getLatestEnrichmentJob(
+  userId: string,
+): Promise<EnrichmentJobSummary | null> {
+  await connectDB();
+
+  const job = await EnrichmentJob.findOne({ userId }, WITHOUT_VIDEO_IDS)
+    .sort({ createdAt: -1 })
+    .lean<EnrichmentJobDocument>();
+
+  return job ? toSummary(job) : null;
+}
+
+/**
+ * The user's most played songs among the given videos
+ */
+async function getEstimatedSongs(
+  userId: string,
+  videoIds: string[],
+): Promise<EstimatedSong[]> {
+  if (videoIds.length === 0) return [];
+
+  const songs = await Play.aggregate<EstimatedSong & { _id: string }>([
+    { $match: { userId, youtubeId: { $in: videoIds } } },
+    {
+      $group: {
+        _id: "$youtubeId",
+        title: { $first: "$title" },
+        artist: { $first: "$artist" },
+        playCount: { $sum: 1 },
+      },
+    },
+    { $sort: { playCount: -1 } },
+    { $limit: MAX_ESTIMATED_SONGS },
+  ]);
+
+  return songs.map(({ _id, title, artist, playCount }) => ({
+    youtubeId: _id,
+    title,
+    artist,
+    playCount,
+  }));
+}
+
+/**
+ * Read `count` of a job's video IDs from `start`
+ */
+async function getVideoIds(
+  jobId: string,
+  start: number,
+  count: number,
+): Promise<string[]> {
+  const job = await EnrichmentJob.findById(jobId, {
+    videoIds: { $slice: [start, count] },
+    unresolvedIds: 0,
+  })
+    .lean<Pick<IEnrichmentJob, "videoIds">>()
+    .orFail();
+
+  return job.videoIds;
+}
+
+/**
+ * Whether a job still has video IDs to look up
+ */
+export function isEnrichmentJobActive(job: EnrichmentJobSummary): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+/**
+ * Record a looked up batch and move the job's cursor past it
+ */
+async function recordBatch(
+  jobId: string,
+  {
+    processed,
+    fetched,
+    unresolvedIds,
+  }: {
+    processed: number;
+    fetched: number;
+    unresolvedIds: string[];
+  },
+): Promise<void> {
+  await EnrichmentJob.updateOne(
+    { _id: jobId },
+    {
+      $set: {
+        processed,
+        quotaExhausted: false,
+        leaseExpiresAt: new Date(Date.now() + ENRICHMENT_LEASE_MS),
+      },
+      $inc: { fetched, unresolved: unresolvedIds.length },
+      $push: { unresolvedIds: { $each: unresolvedIds } },
+    },
+  );
+}
+
+/**
+ * Run the next chunk of an enrichment job
+ *
+ * Looks the chunk's songs up in batches from the job's cursor and
+ * re-resolves the user's plays of them. The run that reaches the end
+ * recalculates the user's all-time stats with the new metadata. Jobs that
+ * are done, or leased to another run, are left alone - a run that dies
+ * mid-chunk leaves its lease to expire, and the job resumes from the last
+ * batch it recorded. A job that runs out of YouTube quota holds its
+ * lease until the quota resets.
+ */
+export async function runEnrichmentChunk(jobId: string): Promise<void> {
+  await connectDB();
+
+  const now = new Date();
+  const job = await EnrichmentJob.findOneAndUpdate(
+    {
+      _id: jobId,
+      status: { $in: ["queued", "running"] },
+      $or: [
+        { leaseExpiresAt: { $exists: false } },
+        { leaseExpiresAt: { $lt: now } },
+      ],
+    },
+    {
+      $set: {
+        status: "running",
+        leaseExpiresAt: new Date(now.getTime() + ENRICHMENT_LEASE_MS),
+      },
+      $min: { startedAt: now },
+    },
+    { new: true, projection: WITHOUT_VIDEO_IDS },
+  ).lean<EnrichmentJobDocument>();
+
+  if (!job) return;
+
+  const { userId, total } = job;
+  let cursor = job.processed;
+
+  try {
+    const chunkIds = await getVideoIds(jobId, cursor, ENRICHMENT_CHUNK_SIZE);
+
+    for (let i = 0; i < chunkIds.length; i += ENRICHMENT_BATCH_SIZE) {
+      const batchIds = chunkIds.slice(i, i + ENRICHMENT_BATCH_SIZE);
+      const result = await lookupSongMetadata(batchIds, { userId });
+
+      await refreshPlays(userId, batchIds);
+
+      // No point asking again today once the quota is gone - the job waits
+      // for the reset, and the batch is looked up again then
+      if (result.quotaExhausted) {
+        await EnrichmentJob.updateOne(
+          { _id: jobId },
+          {
+            $set: {
+              status: "queued",
+              quotaExhausted: true,
+              leaseExpiresAt: getQuotaReset(),
+            },
+          },
+        );
+        return;
+      }
+
+      cursor += batchIds.length;
+      await recordBatch(jobId, {
+        processed: cursor,
+        fetched: result.stats?.fetched ?? 0,
+        unresolvedIds: result.unresolvedIds ?? [],
+      });
+    }
+
+    // Hand the job back for the next run
+    if (cursor < total) {
+      await EnrichmentJob.updateOne(
+        { _id: jobId },
+        { $unset: { leaseExpiresAt: "" } },
+      );
+      return;
+    }
+
+    // Recalculate with the new metadata so the dashboard stops showing
+    // provisional stats
+    const stats = await calculateUserStatsInRange(
+      userId,
+      { type: "all" },
+      job.timeZone,
+      job.sessionGap,
+    );
+    await updateUserStats(userId, stats);
+
+    const { unresolvedIds } = await EnrichmentJob.findById(jobId)
+      .select("unresolvedIds")
+      .lean<Pick<IEnrichmentJob, "unresolvedIds">>()
+      .orFail();
+
+    await EnrichmentJob.updateOne(
+      { _id: jobId },
+      {
+        $set: {
+          status: "completed",
+          completedAt: new Date(),
+          estimatedSongs: await getEstimatedSongs(userId, unresolvedIds),
+        },
+        $unset: { leaseExpiresAt: "" },
+      },
+    );
+  } catch (error) {
+    console.error(`Enrichment job ${jobId} failed:`, error);
+    await EnrichmentJob.updateOne(
+      { _id: jobId },
+      {
+        $set: {
+          status: "failed",
+          completedAt: new Date(),
+          error: error instanceof Error ? error.message : "Enrichment failed",
+        },
+        $unset: { leaseExpiresAt: "" },
+      },
+    );
+  }
+}
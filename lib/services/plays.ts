@@ -0,0 +1,626 @@
+import type { PipelineStage } from "mongoose";
+import { isGenericArtist } from "@/lib/client/parser";
+import connectDB from "@/lib/db/connect";
+import { ARTIST_COLLATION, Play } from "@/lib/db/models/Play";
+import { Song } from "@/lib/db/models/Song";
+import { resolvePlays } from "@/lib/stats/calculator";
+import { getPlayKey, normalizePlayedAt } from "@/lib/stats/play-keys";
+import { addMonths, startOfLocalDay } from "@/lib/stats/time-zone";
+import type {
+  ArtistDetail,
+  ArtistSort,
+  IPlay,
+  ISong,
+  ListeningYear,
+  MonthlyListening,
+  PaginatedResult,
+  ParsedSongInfo,
+  PlayImportResult,
+  RankingOptions,
+  ResolvedPlay,
+  SongDetail,
+  SongSort,
+  TopArtist,
+} from "@/lib/types/database";
+import type { ArtistTitleQuery } from "@/lib/types/metadata";
+
+/**
+ * Bulk-ingest plays into a user's history
+ *
+ * Plays that are already stored are not duplicated, but their resolved
+ * fields (artist, song, duration) are refreshed.
+ */
+export async function ingestPlays(
+  userId: string,
+  plays: ResolvedPlay[],
+): Promise<PlayImportResult> {
+  if (plays.length === 0) {
+    return { inserted: 0, duplicates: 0 };
+  }
+
+  await connectDB();
+
+  const result = await Play.bulkWrite(
+    plays.map((play) => {
+      const playKey = getPlayKey(play);
+      const playedAt = normalizePlayedAt(play.playedAt);
+
+      return {
+        updateOne: {
+          filter: { userId, playKey, playedAt },
+          update: {
+            $setOnInsert: {
+              userId,
+              playKey,
+              playedAt,
+              youtubeId: play.youtubeId,
+              title: play.title,
+              artist: play.artist,
+              originalTitle: play.originalTitle,
+            },
+            $set: {
+              resolvedArtist: play.resolvedArtist,
+              songKey: play.songKey,
+              duration: play.duration,
+              durationSource: play.durationSource,
+            },
+          },
+          upsert: true,
+        },
+      };
+    }),
+    { ordered: false },
+  );
+
+  return {
+    inserted: result.upsertedCount,
+    duplicates: plays.length - result.upsertedCount,
+  };
+}
+
+/**
+ * Re-resolve a user's plays of the given videos against the song cache,
+ * e.g. once their metadata has been looked up
+ */
+export async function refreshPlays(
+  userId: string,
+  videoIds: string[],
+): Promise<void> {
+  await connectDB();
+
+  const [plays, songs] = await Promise.all([
+    Play.find({ userId, youtubeId: { $in: videoIds } })
+      .select("youtubeId title artist originalTitle playedAt")
+      .lean<ParsedSongInfo[]>(),
+    // Songs with only a fetch status have no metadata to resolve against
+    Song.find({ youtubeId: { $in: videoIds }, title: { $exists: true } }).lean<
+      ISong[]
+    >(),
+  ]);
+
+  const metadata = new Map<string, ISong>();
+  for (const song of songs) {
+    if (song.youtubeId) metadata.set(song.youtubeId, song);
+  }
+
+  await ingestPlays(userId, resolvePlays(plays, metadata));
+}
+
+/**
+ * Get a page of a user's plays, in insertion order
+ *
+ * Only the parsed fields are returned - stats resolve them again against
+ * current metadata.
+ */
+export async function getPlays(
+  userId: string,
+  { cursor, limit }: { cursor?: string; limit: number },
+): Promise<{ plays: ParsedSongInfo[]; nextCursor?: string }> {
+  await connectDB();
+
+  const docs = await Play.find({
+    userId,
+    ...(cursor ? { _id: { $gt: cursor } } : {}),
+  })
+    .sort({ _id: 1 })
+    .limit(limit)
+    .lean<(IPlay & { _id: { toString(): string } })[]>();
+
+  return {
+    plays: docs.map((doc) => ({
+      youtubeId: doc.youtubeId,
+      title: doc.title,
+      artist: doc.artist,
+      originalTitle: doc.originalTitle,
+      playedAt: doc.playedAt,
+    })),
+    nextCursor:
+      docs.length === limit ? docs[docs.length - 1]._id.toString() : undefined,
+  };
+}
+
+/**
+ * The artist and title a user's plays of each video were listed under, for
+ * looking videos up by name when no provider knows them
+ */
+export async function getPlayedNames(
+  userId: string,
+  videoIds: string[],
+): Promise<Map<string, ArtistTitleQuery>> {
+  await connectDB();
+
+  const plays = await Play.aggregate<ArtistTitleQuery & { _id: string }>([
+    { $match: { userId, youtubeId: { $in: videoIds } } },
+    {
+      $group: {
+        _id: "$youtubeId",
+        artist: { $first: "$artist" },
+        title: { $first: "$title" },
+      },
+    },
+  ]);
+
+  return new Map(
+    plays
+      .filter((play) => !isGenericArtist(play.artist))
+      .map(({ _id, artist, title }) => [_id, { artist, title }]),
+  );
+}
+
+/**
+ * Count the plays stored for a user
+ */
+export async function countPlays(userId: string): Promise<number> {
+  await connectDB();
+  return Play.countDocuments({ userId });
+}
+
+/**
+ * Delete a user's whole listening history
+ */
+export async function deletePlays(userId: string): Promise<void> {
+  await connectDB();
+  await Play.deleteMany({ userId });
+}
+
+/**
+ * List the calendar years (in the user's time zone) a user has plays in,
+ * newest first
+ */
+export async function getListeningYears(
+  userId: string,
+  timeZone: string,
+): Promise<ListeningYear[]> {
+  await connectDB();
+
+  const years = await Play.aggregate<{ _id: number; plays: number }>([
+    { $match: { userId } },
+    {
+      $group: {
+        _id: { $year: { date: "$playedAt", timezone: timeZone } },
+        plays: { $sum: 1 },
+      },
+    },
+    { $sort: { _id: -1 } },
+  ]);
+
+  return years.map(({ _id, plays }) => ({ year: _id, plays }));
+}
+
+// Ranking fields for each sort option
+const SORT_FIELDS: Record<ArtistSort, string> = {
+  plays: "playCount",
+  duration: "totalDuration",
+  songs: "uniqueSongs",
+};
+
+/**
+ * Sort, count and page a grouped aggregation
+ */
+async function paginate<T>(
+  pipeline: PipelineStage[],
+  { sort, limit, offset }: RankingOptions<ArtistSort>,
+): Promise<{ items: T[]; total: number }> {
+  const [result] = await Play.aggregate<{
+    items: T[];
+    total: { count: number }[];
+  }>([
+    ...pipeline,
+    // Ties are broken by key so pages don't overlap
+    { $sort: { [SORT_FIELDS[sort]]: -1, _id: 1 } },
+    {
+      $facet: {
+        items: [{ $skip: offset }, { $limit: limit }],
+        total: [{ $count: "count" }],
+      },
+    },
+  ]).allowDiskUse(true);
+
+  return { items: result.items, total: result.total[0]?.count ?? 0 };
+}
+
+/**
+ * Match a user's plays within the ranking's date bounds
+ */
+function matchPlays(
+  userId: string,
+  { from, to }: RankingOptions<ArtistSort>,
+): PipelineStage.Match {
+  return {
+    $match: {
+      userId,
+      ...(from || to
+        ? {
+            playedAt: {
+              ...(from ? { $gte: from } : {}),
+              ...(to ? { $lte: to } : {}),
+            },
+          }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Load song metadata for the video IDs on a page
+ */
+async function getSongMetadata(youtubeIds: (string | undefined)[]) {
+  const ids = youtubeIds.filter((id): id is string => !!id);
+  const songs = await Song.find({ youtubeId: { $in: ids } })
+    .select("youtubeId thumbnail artistImage")
+    .lean<Pick<ISong, "youtubeId" | "thumbnail" | "artistImage">[]>();
+  return new Map(songs.map((song) => [song.youtubeId, song]));
+}
+
+// Groups plays into songs, keyed by song key
+const SONG_GROUP: PipelineStage.Group = {
+  $group: {
+    _id: "$songKey",
+    title: { $first: "$title" },
+    artist: { $first: "$resolvedArtist" },
+    // Prefer a play with a video link
+    youtubeId: { $max: "$youtubeId" },
+    duration: { $max: "$duration" },
+    playCount: { $sum: 1 },
+    totalDuration: { $sum: "$duration" },
+  },
+};
+
+/**
+ * Turn grouped songs into songs with their stored thumbnails
+ */
+async function toSongs(groups: (ISong & { _id: string })[]): Promise<ISong[]> {
+  const metadata = await getSongMetadata(groups.map((song) => song.youtubeId));
+
+  return groups.map(({ _id, ...song }) => ({
+    ...song,
+    key: _id,
+    thumbnail: song.youtubeId
+      ? metadata.get(song.youtubeId)?.thumbnail
+      : undefined,
+    artistImage: song.youtubeId
+      ? metadata.get(song.youtubeId)?.artistImage
+      : undefined,
+  }));
+}
+
+/**
+ * Rank a user's songs from their plays
+ */
+export async function getTopSongs(
+  userId: string,
+  options: RankingOptions<SongSort>,
+): Promise<PaginatedResult<ISong>> {
+  await connectDB();
+
+  const { items, total } = await paginate<ISong & { _id: string }>(
+    [matchPlays(userId, options), SONG_GROUP],
+    options,
+  );
+
+  return {
+    items: await toSongs(items),
+    total,
+    limit: options.limit,
+    offset: options.offset,
+  };
+}
+
+/**
+ * Rank a user's artists from their plays
+ */
+export async function getTopArtists(
+  userId: string,
+  options: RankingOptions<ArtistSort>,
+): Promise<PaginatedResult<TopArtist>> {
+  await connectDB();
+
+  const { items, total } = await paginate<TopArtist & { youtubeId?: string }>(
+    [
+      matchPlays(userId, options),
+      {
+        $group: {
+          _id: { $toLower: "$resolvedArtist" },
+          name: { $first: "$resolvedArtist" },
+          youtubeId: { $max: "$youtubeId" },
+          playCount: { $sum: 1 },
+          totalDuration: { $sum: "$duration" },
+          songs: { $addToSet: "$songKey" },
+        },
+      },
+      // 'Release' is left over from "Release - Topic" channels, not an artist
+      { $match: { _id: { $ne: "release" } } },
+      {
+        $project: {
+          name: 1,
+          youtubeId: 1,
+          playCount: 1,
+          totalDuration: 1,
+          uniqueSongs: { $size: "$songs" },
+        },
+      },
+    ],
+    options,
+  );
+
+  const metadata = await getSongMetadata(
+    items.map((artist) => artist.youtubeId),
+  );
+
+  return {
+    items: items.map(
+      ({ name, youtubeId, playCount, totalDuration, uniqueSongs }) => ({
+        name,
+        playCount,
+        totalDuration,
+        uniqueSongs,
+        artistImage: youtubeId
+          ? metadata.get(youtubeId)?.artistImage
+          : undefined,
+      }),
+    ),
+    total,
+    limit: options.limit,
+    offset: options.offset,
+  };
+}
+
+/**
+ * Group plays into months in the user's time zone, oldest first
+ */
+function groupByMonth(timeZone: string): PipelineStage.FacetPipelineStage[] {
+  return [
+    {
+      $group: {
+        _id: {
+          $dateToString: {
+            format: "%Y-%m",
+            date: "$playedAt",
+            timezone: timeZone,
+          },
+        },
+        playCount: { $sum: 1 },
+        totalDuration: { $sum: "$duration" },
+      },
+    },
+    { $sort: { _id: 1 } },
+    {
+      $project: {
+        _id: 0,
+        month: "$_id",
+        playCount: 1,
+        totalDuration: 1,
+      },
+    },
+  ];
+}
+
+/**
+ * Fill in the months without plays between the first and last month
+ */
+function fillMonths<T extends MonthlyListening>(
+  months: T[],
+): (T | MonthlyListening)[] {
+  if (months.length === 0) return [];
+
+  const byMonth = new Map(months.map((month) => [month.month, month]));
+  const last = months[months.length - 1].month;
+  const filled: (T | MonthlyListening)[] = [];
+
+  for (
+    let month = months[0].month;
+    month <= last;
+    month = addMonths(month, 1)
+  ) {
+    filled.push(
+      byMonth.get(month) ?? { month, playCount: 0, totalDuration: 0 },
+    );
+  }
+
+  return filled;
+}
+
+/**
+ * Everything a user has listened to by one artist, matched the same way
+ * as the artist rankings (case-insensitively)
+ *
+ * Returns null if the user never played the artist.
+ */
+export async function getArtistDetail(
+  userId: string,
+  artist: string,
+  timeZone: string,
+): Promise<ArtistDetail | null> {
+  await connectDB();
+
+  const [result] = await Play.aggregate<{
+    summary: (Omit<TopArtist, "uniqueSongs" | "artistImage"> & {
+      firstPlayed: Date;
+      lastPlayed: Date;
+    })[];
+    timeline: MonthlyListening[];
+    songs: (ISong & { _id: string })[];
+  }>([
+    { $match: { userId, resolvedArtist: artist } },
+    {
+      $facet: {
+        summary: [
+          {
+            $group: {
+              _id: null,
+              name: { $first: "$resolvedArtist" },
+              playCount: { $sum: 1 },
+              totalDuration: { $sum: "$duration" },
+              firstPlayed: { $min: "$playedAt" },
+              lastPlayed: { $max: "$playedAt" },
+            },
+          },
+        ],
+        timeline: groupByMonth(timeZone),
+        songs: [SONG_GROUP, { $sort: { playCount: -1, _id: 1 } }],
+      },
+    },
+  ])
+    .collation(ARTIST_COLLATION)
+    .allowDiskUse(true);
+
+  const summary = result?.summary[0];
+  if (!summary) {
+    return null;
+  }
+
+  const [totals] = await Play.aggregate<{
+    playCount: number;
+    totalDuration: number;
+  }>([
+    { $match: { userId } },
+    {
+      $group: {
+        _id: null,
+        playCount: { $sum: 1 },
+        totalDuration: { $sum: "$duration" },
+      },
+    },
+  ]);
+
+  const songs = await toSongs(result.songs);
+
+  return {
+    name: summary.name,
+    playCount: summary.playCount,
+    totalDuration: summary.totalDuration,
+    uniqueSongs: songs.length,
+    artistImage: songs.find((song) => song.artistImage)?.artistImage,
+    firstPlayed: summary.firstPlayed,
+    lastPlayed: summary.lastPlayed,
+    playShare: totals.playCount > 0 ? summary.playCount / totals.playCount : 0,
+    durationShare:
+      totals.totalDuration > 0
+        ? summary.totalDuration / totals.totalDuration
+        : 0,
+    timeline: fillMonths(result.timeline),
+    songs,
+  };
+}
+
+/**
+ * Everything a user has listened to of one song, with its rank among the
+ * songs they played each month
+ *
+ * Returns null if the user never played the song.
+ */
+export async function getSongDetail(
+  userId: string,
+  songKey: string,
+  timeZone: string,
+): Promise<SongDetail | null> {
+  await connectDB();
+
+  const [result] = await Play.aggregate<{
+    summary: (ISong & { _id: string; firstPlayed: Date; lastPlayed: Date })[];
+    timeline: MonthlyListening[];
+  }>([
+    { $match: { userId, songKey } },
+    {
+      $facet: {
+        summary: [
+          {
+            $group: {
+              ...SONG_GROUP.$group,
+              firstPlayed: { $min: "$playedAt" },
+              lastPlayed: { $max: "$playedAt" },
+            },
+          },
+        ],
+        timeline: groupByMonth(timeZone),
+      },
+    },
+  ]);
+
+  const summary = result?.summary[0];
+  if (!summary) {
+    return null;
+  }
+
+  const months = result.timeline.map((month) => month.month);
+  const ranks = await Play.aggregate<{ month: string; rank: number }>([
+    {
+      $match: {
+        userId,
+        playedAt: { $gte: startOfLocalDay(`${months[0]}-01`, timeZone) },
+      },
+    },
+    {
+      $group: {
+        _id: {
+          month: {
+            $dateToString: {
+              format: "%Y-%m",
+              date: "$playedAt",
+              timezone: timeZone,
+            },
+          },
+          songKey: "$songKey",
+        },
+        playCount: { $sum: 1 },
+      },
+    },
+    { $match: { "_id.month": { $in: months } } },
+    {
+      $setWindowFields: {
+        partitionBy: "$_id.month",
+        sortBy: { playCount: -1 },
+        output: { rank: { $rank: {} } },
+      },
+    },
+    { $match: { "_id.songKey": songKey } },
+    { $project: { _id: 0, month: "$_id.month", rank: 1 } },
+  ]).allowDiskUse(true);
+  const rankByMonth = new Map(ranks.map(({ month, rank }) => [month, rank]));
+
+  const { _id, firstPlayed, lastPlayed, ...song } = summary;
+  const cached = song.youtubeId
+    ? await Song.findOne({ youtubeId: song.youtubeId })
+        .select("thumbnail artistImage releaseDate genres")
+        .lean<
+          Pick<ISong, "thumbnail" | "artistImage" | "releaseDate" | "genres">
+        >()
+    : null;
+
+  return {
+    ...song,
+    key: _id,
+    thumbnail: cached?.thumbnail,
+    artistImage: cached?.artistImage,
+    releaseDate: cached?.releaseDate,
+    genres: cached?.genres,
+    firstPlayed,
+    lastPlayed,
+    timeline: fillMonths(
+      result.timeline.map((month) => ({
+        ...month,
+        rank: rankByMonth.get(month.month),
+      })),
+    ),
+  };
+}
@@ -0,0 +1,59 @@
+import connectDB from "@/lib/db/connect";
+import { RateLimit } from "@/lib/db/models/RateLimit";
+import type { RateLimitResult } from "@/lib/types/database";
+
+/**
+ * Spend units from a fixed-window rate limit
+ *
+ * Windows are stored in Mongo so limits hold across server instances.
+ *
+ * @param key - The action and who it's limited for, e.g. `song-lookup:<userId>`
+ * @param units - Units to spend, e.g. the number of video IDs in a request
+ * @param limit - Units allowed per window
+ * @param window - Length of a window in seconds, counted from the epoch, or
+ * the current window itself for limits that follow a calendar
+ */
+export async function consumeRateLimit(
+  key: string,
+  units: number,
+  limit: number,
+  window: number | { start: Date; end: Date },
+): Promise<RateLimitResult> {
+  await connectDB();
+
+  const now = Date.now();
+  let windowStart: Date;
+  let expiresAt: Date;
+  if (typeof window === "number") {
+    const windowMs = window * 1000;
+    windowStart = new Date(now - (now % windowMs));
+    expiresAt = new Date(windowStart.getTime() + windowMs);
+  } else {
+    windowStart = window.start;
+    expiresAt = window.end;
+  }
+  const retryAfter = Math.ceil((expiresAt.getTime() - now) / 1000);
+
+  if (units > limit) {
+    return { allowed: false, retryAfter };
+  }
+
+  try {
+    const result = await RateLimit.updateOne(
+      { key, windowStart, count: { $lte: limit - units } },
+      { $inc: { count: units }, $setOnInsert: { expiresAt } },
+      { upsert: true },
+    );
+    return {
+      allowed: result.matchedCount > 0 || result.upsertedCount > 0,
+      retryAfter,
+    };
+  } catch (error) {
+    // Once the window is over the limit the filter stops matching and the
+    // upsert collides with the window's document
+    if ((error as { code?: number }).code === 11000) {
+      return { allowed: false, retryAfter };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,237 @@
+import { extractArtistFromTitle, isGenericArtist } from "@/lib/client/parser";
+import connectDB from "@/lib/db/connect";
+import { Song } from "@/lib/db/models/Song";
+import { getArtistGenres, getMetadataChain, isSongStale } from "@/lib/metadata";
+import { getPlayedNames } from "@/lib/services/plays";
+import {
+  estimateQuotaUnits,
+  spendUserQuota,
+} from "@/lib/services/youtube-quota";
+import type {
+  ISong,
+  LookupResult,
+  SongFetchStatus,
+} from "@/lib/types/database";
+
+// Stale cached songs refreshed per lookup, so refreshing the cache never
+// holds a lookup up for long - the oldest go first
+const MAX_STALE_REFRESHES = 20;
+
+/**
+ * Look up songs by video IDs - from the song cache, then the metadata
+ * providers for songs missing from it. Fetched songs are cached, and a few
+ * stale cached songs are refreshed along the way (see `getStaleFields`).
+ *
+ * @param options.cacheOnly - Only read the cache, returning uncached and
+ * stale IDs as pending
+ * @param options.userId - User whose share of the YouTube quota the lookup
+ * is charged to
+ */
+export async function lookupSongMetadata(
+  videoIds: string[],
+  { cacheOnly = false, userId }: { cacheOnly?: boolean; userId?: string } = {},
+): Promise<LookupResult> {
+  await connectDB();
+
+  // Step 1: Check cache for existing songs
+  const cachedSongs = await Song.find({
+    youtubeId: { $in: videoIds },
+  }).lean();
+
+  const cachedMap = new Map<string, ISong>();
+  // Videos the providers didn't find last time, and with nothing cached
+  const unavailableIds = new Set<string>();
+  const now = new Date();
+  const staleSongs: { youtubeId: string; fetchedAt: number }[] = [];
+  for (const song of cachedSongs) {
+    // Only a status was saved - asked about again like an uncached song
+    // once it's stale
+    if (!song.title) {
+      if (!isSongStale(song, now)) unavailableIds.add(song.youtubeId);
+      continue;
+    }
+
+    if (isSongStale(song, now)) {
+      staleSongs.push({
+        youtubeId: song.youtubeId,
+        fetchedAt: new Date(
+          song.lastFetchedAt ?? song.updatedAt ?? 0,
+        ).getTime(),
+      });
+    }
+
+    let artist = song.artist;
+
+    // Re-check if cached artist is generic (old cache entries might have "Release")
+    if (isGenericArtist(artist)) {
+      const extracted = extractArtistFromTitle(song.title);
+      artist = extracted || "Unknown Artist";
+    }
+
+    cachedMap.set(song.youtubeId, {
+      key: song.key,
+      youtubeId: song.youtubeId,
+      title: song.title,
+      artist,
+      duration: song.duration,
+      channelTitle: song.channelTitle || song.artist,
+      thumbnail: song.thumbnail,
+      artistImage: song.artistImage,
+      releaseDate: song.releaseDate,
+      album: song.album,
+      // Songs cached without genres can still match the artist table
+      genres: song.genres?.length ? song.genres : getArtistGenres(artist),
+    } as ISong);
+  }
+
+  // Step 2: Find missing IDs, and the stale cached songs to refresh
+  const missingIds = videoIds.filter(
+    (id) => !cachedMap.has(id) && !unavailableIds.has(id),
+  );
+  const staleIds = staleSongs
+    .sort((a, b) => a.fetchedAt - b.fetchedAt)
+    .slice(0, MAX_STALE_REFRESHES)
+    .map((song) => song.youtubeId);
+
+  console.log(
+    `Cache hit: ${cachedMap.size}, Missing: ${missingIds.length}, Stale: ${staleSongs.length} (refreshing ${staleIds.length})`,
+  );
+
+  // Uploads only read the cache - the rest is left to the enrichment job
+  if (cacheOnly) {
+    return {
+      success: true,
+      data: Object.fromEntries(cachedMap),
+      stats: {
+        requested: videoIds.length,
+        cached: cachedMap.size,
+        fetched: 0,
+        notFound: 0,
+        unresolved: 0,
+      },
+      pendingIds: [...missingIds, ...staleIds],
+    };
+  }
+
+  // Step 3: Fetch missing and stale songs from the providers
+  const idsToFetch = [...missingIds, ...staleIds];
+  const newSongs = new Map<string, ISong>();
+  // Cached songs that couldn't be refreshed still have their metadata
+  let unresolvedIds: string[] = [];
+  let quotaExhausted = false;
+
+  const chain = getMetadataChain();
+
+  // Charge the user's share of the quota - cache hits cost nothing
+  const withinUserQuota =
+    idsToFetch.length === 0 ||
+    !userId ||
+    !chain?.providers.includes("youtube") ||
+    (await spendUserQuota(userId, estimateQuotaUnits(idsToFetch.length)));
+
+  // The other providers are still asked once the user is out of quota
+  if (!withinUserQuota) {
+    console.warn(`User ${userId} has used up their share of today's quota`);
+  }
+
+  if (idsToFetch.length > 0 && chain) {
+    const fetched = await chain.lookup(idsToFetch, {
+      playedNames: userId
+        ? await getPlayedNames(userId, idsToFetch)
+        : undefined,
+      skip: withinUserQuota ? [] : ["youtube"],
+    });
+    unresolvedIds = fetched.unresolvedIds.filter((id) => !cachedMap.has(id));
+    quotaExhausted = !withinUserQuota || fetched.quotaExhausted;
+
+    // Songs the providers don't find are checked on again less often.
+    // Cached ones keep their metadata, uncached ones get a status-only
+    // document, keyed by video ID until they're found.
+    const unresolved = new Set(fetched.unresolvedIds);
+    for (const id of idsToFetch) {
+      if (fetched.songs.has(id) || unresolved.has(id)) continue;
+
+      const fetchStatus: SongFetchStatus =
+        fetched.unavailable.get(id) ?? "notFound";
+      await Song.updateOne(
+        { youtubeId: id },
+        {
+          $set: { fetchStatus, lastFetchedAt: now },
+          $setOnInsert: { key: id },
+        },
+        { upsert: true },
+      );
+    }
+
+    for (const [id, song] of fetched.songs) {
+      newSongs.set(id, song);
+    }
+
+    // Step 4: Save new songs to cache OR refresh existing ones
+    if (newSongs.size > 0) {
+      const songsToUpsert = Array.from(newSongs.values());
+
+      for (const song of songsToUpsert) {
+        try {
+          await Song.updateOne(
+            { youtubeId: song.youtubeId },
+            {
+              $set: {
+                key: `${song.artist.toLowerCase()} - ${song.title.toLowerCase()}`,
+                youtubeId: song.youtubeId,
+                title: song.title,
+                artist: song.artist,
+                duration: song.duration,
+                channelTitle: song.channelTitle,
+                thumbnail: song.thumbnail,
+                artistImage: song.artistImage,
+                releaseDate: song.releaseDate,
+                album: song.album,
+                genres: song.genres,
+                lastFetchedAt: now,
+                fetchStatus: "ok",
+              },
+            },
+            { upsert: true },
+          );
+        } catch {
+          // Ignore errors for individual songs
+        }
+      }
+      console.log(`Upserted ${songsToUpsert.length} songs`);
+    }
+  }
+
+  // Step 5: Merge cached + new songs
+  const allSongs: Record<string, ISong> = {};
+
+  for (const [id, song] of cachedMap) {
+    allSongs[id] = song;
+  }
+
+  for (const [id, song] of newSongs) {
+    allSongs[id] = song;
+  }
+
+  if (unresolvedIds.length > 0) {
+    console.warn(
+      `Couldn't look up ${unresolvedIds.length} songs${quotaExhausted ? " (quota exhausted)" : ""}`,
+    );
+  }
+
+  return {
+    success: true,
+    data: allSongs,
+    stats: {
+      requested: videoIds.length,
+      cached: cachedMap.size,
+      fetched: newSongs.size,
+      // Refreshed songs are both cached and fetched
+      notFound:
+        videoIds.length - Object.keys(allSongs).length - unresolvedIds.length,
+      unresolved: unresolvedIds.length,
+    },
+    quotaExhausted,
+    unresolvedIds,
+  };
+}
@@ -1,5 +1,16 @@
 import connectDB from "@/lib/db/connect";
-import type { IUserStats } from "@/lib/types/database";
+import { Play } from "@/lib/db/models/Play";
+import { Song } from "@/lib/db/models/Song";
+import { getArtistGenres } from "@/lib/metadata/genres";
+import { calculateStats } from "@/lib/stats/calculator";
+import { getRangeBounds } from "@/lib/stats/range";
+import { DEFAULT_SESSION_GAP } from "@/lib/stats/sessions";
+import type {
+  ISong,
+  IUserStats,
+  ParsedSongInfo,
+  StatsRange,
+} from "@/lib/types/database";
 import { UserStats } from "../db/models/UserStats";
 
 /**
@@ -38,3 +49,58 @@ export async function hasStats(userId: string): Promise<boolean> {
   const count = await UserStats.countDocuments({ userId });
   return count > 0;
 }
+
+/**
+ * Calculate a user's stats over a date range from their stored plays,
+ * counting days in the user's time zone and splitting sessions at their
+ * session gap
+ */
+export async function calculateUserStatsInRange(
+  userId: string,
+  range: StatsRange,
+  timeZone: string,
+  sessionGap = DEFAULT_SESSION_GAP,
+): Promise<IUserStats> {
+  await connectDB();
+
+  const { from, to } = getRangeBounds(range, timeZone);
+  const playedAt = {
+    ...(from ? { $gte: from } : {}),
+    ...(to ? { $lte: to } : {}),
+  };
+
+  const plays = await Play.find({
+    userId,
+    ...(from || to ? { playedAt } : {}),
+  })
+    .select("youtubeId title artist originalTitle playedAt")
+    .lean<ParsedSongInfo[]>();
+
+  const youtubeIds = [
+    ...new Set(plays.flatMap((play) => play.youtubeId ?? [])),
+  ];
+  // Songs with only a fetch status have no metadata to resolve against
+  const songs = await Song.find({
+    youtubeId: { $in: youtubeIds },
+    title: { $exists: true },
+  }).lean<ISong[]>();
+
+  const metadata = new Map<string, ISong>();
+  for (const song of songs) {
+    if (song.youtubeId) {
+      // Songs cached without genres can still match the artist table
+      metadata.set(song.youtubeId, {
+        ...song,
+        genres: song.genres?.length
+          ? song.genres
+          : getArtistGenres(song.artist),
+      });
+    }
+  }
+
+  return calculateStats(plays, undefined, metadata, {
+    range,
+    timeZone,
+    sessionGap,
+  });
+}
@@ -0,0 +1,110 @@
+import connectDB from "@/lib/db/connect";
+import { ApiQuota } from "@/lib/db/models/ApiQuota";
+import {
+  addDays,
+  createLocalTimeResolver,
+  startOfLocalDay,
+} from "@/lib/stats/time-zone";
+import { consumeRateLimit } from "./rate-limit";
+
+// Units the API key may spend per day (YouTube's default allocation)
+const DAILY_QUOTA = Number(process.env.YOUTUBE_DAILY_QUOTA) || 10000;
+
+// Units one user's lookups may spend per day, so no single user can use up
+// the quota everyone shares
+const USER_DAILY_QUOTA =
+  Number(process.env.YOUTUBE_USER_DAILY_QUOTA) || Math.floor(DAILY_QUOTA / 5);
+
+// Videos per videos.list or channels.list request
+const VIDEOS_PER_REQUEST = 50;
+
+// YouTube resets quotas at midnight Pacific Time
+const QUOTA_TIME_ZONE = "America/Los_Angeles";
+const getQuotaTime = createLocalTimeResolver(QUOTA_TIME_ZONE);
+
+function getQuotaDay(): string {
+  return getQuotaTime(new Date()).date;
+}
+
+function getQuotaWindow(): { start: Date; end: Date } {
+  const day = getQuotaDay();
+  return {
+    start: startOfLocalDay(day, QUOTA_TIME_ZONE),
+    end: startOfLocalDay(addDays(day, 1), QUOTA_TIME_ZONE),
+  };
+}
+
+/**
+ * When today's quota resets
+ */
+export function getQuotaReset(): Date {
+  return getQuotaWindow().end;
+}
+
+/**
+ * Spend API units from today's quota
+ *
+ * @returns Whether the units were available - when not, nothing is spent
+ * and the request shouldn't be made
+ */
+export async function spendQuota(units: number): Promise<boolean> {
+  await connectDB();
+
+  try {
+    const result = await ApiQuota.updateOne(
+      { day: getQuotaDay(), units: { $lte: DAILY_QUOTA - units } },
+      { $inc: { units } },
+      { upsert: true },
+    );
+    return result.matchedCount > 0 || result.upsertedCount > 0;
+  } catch (error) {
+    // Once the day is over budget the filter stops matching and the upsert
+    // collides with the day's document
+    if ((error as { code?: number }).code === 11000) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Record that YouTube reported the quota as exceeded, so no more requests
+ * are made until it resets
+ */
+export async function markQuotaExhausted(): Promise<void> {
+  await connectDB();
+
+  await ApiQuota.updateOne(
+    { day: getQuotaDay() },
+    { $max: { units: DAILY_QUOTA } },
+    { upsert: true },
+  );
+}
+
+/**
+ * Units looking up this many uncached videos can cost - a videos.list and
+ * a channels.list request per 50
+ */
+export function estimateQuotaUnits(videoCount: number): number {
+  return Math.ceil(videoCount / VIDEOS_PER_REQUEST) * 2;
+}
+
+/**
+ * Spend units from a user's share of today's quota, which resets along
+ * with the quota itself
+ *
+ * @returns Whether the user had the units left - when not, nothing is
+ * spent and the lookup shouldn't be made
+ */
+export async function spendUserQuota(
+  userId: string,
+  units: number,
+): Promise<boolean> {
+  const { allowed } = await consumeRateLimit(
+    `youtube-quota:${userId}`,
+    units,
+    USER_DAILY_QUOTA,
+    getQuotaWindow(),
+  );
+  return allowed;
+}
@@ -1,21 +1,37 @@
 /**
- * Client-side Statistics Calculator
+ * Statistics Calculator
  *
- * Calculates all music statistics in the browser
- * with memory-efficient processing and progress updates
+ * Calculates all music statistics - in the upload worker, and on the server
+ * when stats are recounted - with memory-efficient processing and progress
+ * updates
  */
 
-import type { ISong, IUserStats, ParsedSongInfo } from "@/lib/types/database";
+import { extractArtistFromTitle, isGenericArtist } from "@/lib/client/parser";
+import type {
+  DailyListening,
+  DayStreak,
+  GenreShare,
+  ISong,
+  IUserStats,
+  MonthlyTrend,
+  ParsedSongInfo,
+  ResolvedPlay,
+  StatsOptions,
+  StatsProgress,
+  TopAlbum,
+} from "@/lib/types/database";
+import { getRangeBounds, isInRange } from "./range";
+import { buildSessions, DEFAULT_SESSION_GAP } from "./sessions";
 import {
-  extractArtistFromTitle,
-  getDeviceCapability,
-  isGenericArtist,
-} from "./parser";
-
-export interface StatsProgress {
-  stage: "grouping" | "calculating" | "finalizing" | "complete";
-  progress: number;
-}
+  addDays,
+  addMonths,
+  createLocalTimeResolver,
+  daysBetween,
+  getDefaultTimeZone,
+} from "./time-zone";
+
+// Re-export StatsProgress for convenience
+export type { StatsProgress } from "@/lib/types/database";
 
 // Default song duration in seconds (3.5 minutes average)
 const DEFAULT_SONG_DURATION = 210;
@@ -114,6 +130,69 @@ function createSongKey(artist: string, title: string): string {
   return `${artist.toLowerCase().trim()} - ${title.toLowerCase().trim()}`;
 }
 
+/**
+ * Create a rows x columns matrix of zeros
+ */
+function createMatrix(rows: number, columns: number): number[][] {
+  return Array.from({ length: rows }, () => new Array(columns).fill(0));
+}
+
+/**
+ * Build a streak from its first and last local day (YYYY-MM-DD)
+ */
+function createStreak(start: string, end: string): DayStreak {
+  return {
+    days: daysBetween(start, end) + 1,
+    start: new Date(start),
+    end: new Date(end),
+  };
+}
+
+/**
+ * Find the longest and current listening streaks and the longest gap
+ * @param dates - Local days with plays (YYYY-MM-DD), oldest first
+ * @param today - Local day the current streak is counted up to
+ */
+function calculateStreaks(
+  dates: string[],
+  today: string,
+): Pick<IUserStats, "longestStreak" | "currentStreak" | "longestGap"> {
+  if (dates.length === 0) return {};
+
+  let longestStreak: DayStreak | undefined;
+  let longestGap: DayStreak | undefined;
+  let streakStart = dates[0];
+
+  for (let i = 1; i <= dates.length; i++) {
+    const previous = dates[i - 1];
+    const date = dates[i];
+    if (date && daysBetween(previous, date) === 1) continue;
+
+    // The run that started at streakStart ends here
+    const streak = createStreak(streakStart, previous);
+    if (!longestStreak || streak.days > longestStreak.days) {
+      longestStreak = streak;
+    }
+
+    if (date) {
+      const gap = createStreak(addDays(previous, 1), addDays(date, -1));
+      if (!longestGap || gap.days > longestGap.days) {
+        longestGap = gap;
+      }
+      streakStart = date;
+    }
+  }
+
+  // A streak is still going if the last play was today or yesterday
+  const lastDate = dates[dates.length - 1];
+  const currentStreak =
+    daysBetween(lastDate, today) <= 1
+      ? createStreak(streakStart, lastDate)
+      : undefined;
+
+  return { longestStreak, currentStreak, longestGap };
+}
+
 /**
  * Yield to browser to prevent UI freeze
  */
@@ -161,6 +240,73 @@ function estimateDuration(title: string): number {
   return DEFAULT_SONG_DURATION;
 }
 
+/**
+ * Get duration for an entry - prefer real metadata, fall back to estimation
+ */
+function resolveDuration(
+  entry: ParsedSongInfo,
+  metadata?: Map<string, ISong>,
+): Pick<ResolvedPlay, "duration" | "durationSource"> {
+  if (metadata && entry.youtubeId) {
+    const songMeta = metadata.get(entry.youtubeId);
+    if (songMeta?.duration && songMeta.duration > 0) {
+      return { duration: songMeta.duration, durationSource: "metadata" };
+    }
+  }
+  return {
+    duration: estimateDuration(entry.title),
+    durationSource: "estimate",
+  };
+}
+
+/**
+ * Get artist name - prefer metadata (fixes "Release" issue), fall back to parsed
+ */
+function resolveArtist(
+  entry: ParsedSongInfo,
+  metadata?: Map<string, ISong>,
+): string {
+  if (metadata && entry.youtubeId) {
+    const songMeta = metadata.get(entry.youtubeId);
+    // Use metadata artist if it's valid and not generic
+    if (songMeta?.artist && !isGenericArtist(songMeta.artist)) {
+      return songMeta.artist;
+    }
+  }
+  // Fall back to parsed artist if it's not generic
+  if (!isGenericArtist(entry.artist)) {
+    return entry.artist;
+  }
+  // Last resort: try to extract from original title
+  return extractArtistFromTitle(entry.originalTitle) || entry.artist;
+}
+
+/**
+ * Resolve the artist, song key and duration of a play
+ */
+function resolvePlay(
+  entry: ParsedSongInfo,
+  metadata?: Map<string, ISong>,
+): ResolvedPlay {
+  const resolvedArtist = resolveArtist(entry, metadata);
+  return {
+    ...entry,
+    resolvedArtist,
+    songKey: createSongKey(resolvedArtist, entry.title),
+    ...resolveDuration(entry, metadata),
+  };
+}
+
+/**
+ * Resolve plays the way stats see them, e.g. before storing them
+ */
+export function resolvePlays(
+  entries: ParsedSongInfo[],
+  metadata?: Map<string, ISong>,
+): ResolvedPlay[] {
+  return entries.map((entry) => resolvePlay(entry, metadata));
+}
+
 interface SongData {
   title: string;
   artist: string;
@@ -185,10 +331,28 @@ interface ArtistData {
   artistImage?: string;
 }
 
+interface AlbumData {
+  name: string;
+  artist: string;
+  playCount: number;
+  totalDuration: number;
+  songs: Set<string>;
+  thumbnail?: string;
+}
+
 interface DailyData {
   date: string;
   playCount: number;
   totalDuration: number;
+  /** Plays per song key that day */
+  songs: Map<string, number>;
+}
+
+interface MonthlyData {
+  playCount: number;
+  totalDuration: number;
+  songs: Set<string>;
+  artists: Set<string>;
 }
 
 interface SongYearData {
@@ -203,13 +367,27 @@ interface SongYearData {
  * @param entries - Parsed song entries
  * @param onProgress - Progress callback
  * @param metadata - Optional pre-fetched song metadata map (youtubeId -> metadata)
+ * @param options - Optional date range and time zone
  */
 export async function calculateStats(
-  entries: ParsedSongInfo[],
+  allEntries: ParsedSongInfo[],
   onProgress?: (progress: StatsProgress) => void,
   metadata?: Map<string, ISong>,
+  options: StatsOptions = {},
 ): Promise<IUserStats> {
-  const capability = getDeviceCapability();
+  const {
+    range = { type: "all" },
+    timeZone = getDefaultTimeZone(),
+    sessionGap = DEFAULT_SESSION_GAP,
+    capability = "high",
+  } = options;
+  const getLocalTime = createLocalTimeResolver(timeZone);
+  const bounds = getRangeBounds(range, timeZone);
+  const entries =
+    range.type === "all"
+      ? allEntries
+      : allEntries.filter((entry) => isInRange(entry.playedAt, bounds));
+
   const batchSize = capability === "high" ? 2000 : 500;
 
   onProgress?.({ stage: "grouping", progress: 0 });
@@ -217,48 +395,30 @@ export async function calculateStats(
   // Maps for aggregation
   const songMap = new Map<string, SongData>();
   const artistMap = new Map<string, ArtistData>();
+  const albumMap = new Map<string, AlbumData>();
+  const genreMap = new Map<
+    string,
+    { playCount: number; totalDuration: number }
+  >();
   const dailyMap = new Map<string, DailyData>();
+  const monthlyMap = new Map<string, MonthlyData>();
 
   // Song age tracking
   const songYearMap = new Map<string, SongYearData>();
   const decadeCountMap = new Map<string, number>();
 
+  // Day of week x hour of day, in the listener's time zone
+  const heatmapCounts = createMatrix(7, 24);
+  const heatmapDurations = createMatrix(7, 24);
+
+  // Month of "this month" stats, as YYYY-MM
+  const currentMonth = getLocalTime(new Date()).date.slice(0, 7);
+
   let totalPlaytime = 0;
+  let monthlyPlaytime = 0;
   let firstPlayDate: Date | undefined;
   let lastPlayDate: Date | undefined;
 
-  /**
-   * Get duration for an entry - prefer real metadata, fall back to estimation
-   */
-  function getDuration(entry: ParsedSongInfo): number {
-    if (metadata && entry.youtubeId) {
-      const songMeta = metadata.get(entry.youtubeId);
-      if (songMeta?.duration && songMeta.duration > 0) {
-        return songMeta.duration;
-      }
-    }
-    return estimateDuration(entry.title);
-  }
-
-  /**
-   * Get artist name - prefer metadata (fixes "Release" issue), fall back to parsed
-   */
-  function getArtist(entry: ParsedSongInfo): string {
-    if (metadata && entry.youtubeId) {
-      const songMeta = metadata.get(entry.youtubeId);
-      // Use metadata artist if it's valid and not generic
-      if (songMeta?.artist && !isGenericArtist(songMeta.artist)) {
-        return songMeta.artist;
-      }
-    }
-    // Fall back to parsed artist if it's not generic
-    if (!isGenericArtist(entry.artist)) {
-      return entry.artist;
-    }
-    // Last resort: try to extract from original title
-    return extractArtistFromTitle(entry.originalTitle) || entry.artist;
-  }
-
   /**
    * Get song thumbnail from metadata
    */
@@ -287,13 +447,22 @@ export async function calculateStats(
 
     for (let j = i; j < batchEnd; j++) {
       const entry = entries[j];
-      const artist = getArtist(entry);
-      const songKey = createSongKey(artist, entry.title);
-      const duration = getDuration(entry);
-      const dateStr = entry.playedAt.toISOString().split("T")[0];
+      const {
+        resolvedArtist: artist,
+        songKey,
+        duration,
+      } = resolvePlay(entry, metadata);
+      const { date: dateStr, dayOfWeek, hour } = getLocalTime(entry.playedAt);
 
       // Update total playtime
       totalPlaytime += duration;
+      if (dateStr.startsWith(currentMonth)) {
+        monthlyPlaytime += duration;
+      }
+
+      // Update listening heatmap
+      heatmapCounts[dayOfWeek][hour]++;
+      heatmapDurations[dayOfWeek][hour] += duration;
 
       // Track first/last play dates
       if (!firstPlayDate || entry.playedAt < firstPlayDate) {
@@ -366,16 +535,77 @@ export async function calculateStats(
         });
       }
 
+      const songMeta =
+        metadata && entry.youtubeId ? metadata.get(entry.youtubeId) : undefined;
+
+      // Update genre data, by the song's main genre
+      const genre = songMeta?.genres?.[0];
+      if (genre) {
+        const existingGenre = genreMap.get(genre);
+        if (existingGenre) {
+          existingGenre.playCount++;
+          existingGenre.totalDuration += duration;
+        } else {
+          genreMap.set(genre, { playCount: 1, totalDuration: duration });
+        }
+      }
+
+      // Update album data, where the metadata knows the album
+      const album = songMeta?.album;
+      if (album) {
+        const albumKey = `${artistKey} - ${album.toLowerCase().trim()}`;
+        const existingAlbum = albumMap.get(albumKey);
+        if (existingAlbum) {
+          existingAlbum.playCount++;
+          existingAlbum.totalDuration += duration;
+          existingAlbum.songs.add(songKey);
+          if (!existingAlbum.thumbnail) {
+            existingAlbum.thumbnail = getThumbnail(entry);
+          }
+        } else {
+          albumMap.set(albumKey, {
+            name: album,
+            artist,
+            playCount: 1,
+            totalDuration: duration,
+            songs: new Set([songKey]),
+            thumbnail: getThumbnail(entry),
+          });
+        }
+      }
+
       // Update daily data
       const existingDaily = dailyMap.get(dateStr);
       if (existingDaily) {
         existingDaily.playCount++;
         existingDaily.totalDuration += duration;
+        existingDaily.songs.set(
+          songKey,
+          (existingDaily.songs.get(songKey) || 0) + 1,
+        );
       } else {
         dailyMap.set(dateStr, {
           date: dateStr,
           playCount: 1,
           totalDuration: duration,
+          songs: new Map([[songKey, 1]]),
+        });
+      }
+
+      // Update monthly data
+      const month = dateStr.slice(0, 7);
+      const existingMonth = monthlyMap.get(month);
+      if (existingMonth) {
+        existingMonth.playCount++;
+        existingMonth.totalDuration += duration;
+        existingMonth.songs.add(songKey);
+        existingMonth.artists.add(artistKey);
+      } else {
+        monthlyMap.set(month, {
+          playCount: 1,
+          totalDuration: duration,
+          songs: new Set([songKey]),
+          artists: new Set([artistKey]),
         });
       }
 
@@ -466,6 +696,33 @@ export async function calculateStats(
     })),
   );
 
+  // Calculate top albums (sorted by play count)
+  const topAlbums: TopAlbum[] = Array.from(albumMap.values())
+    .sort((a, b) => b.playCount - a.playCount)
+    .slice(0, 10)
+    .map((album) => ({
+      name: album.name,
+      artist: album.artist,
+      playCount: album.playCount,
+      totalDuration: album.totalDuration,
+      uniqueSongs: album.songs.size,
+      thumbnail: album.thumbnail,
+    }));
+
+  // Calculate genre distribution (sorted by play count)
+  let genrePlays = 0;
+  for (const genre of genreMap.values()) {
+    genrePlays += genre.playCount;
+  }
+  const genreDistribution: GenreShare[] = Array.from(genreMap.entries())
+    .map(([genre, { playCount, totalDuration }]) => ({
+      genre,
+      playCount,
+      totalDuration,
+      percentage: Math.round((playCount / genrePlays) * 100),
+    }))
+    .sort((a, b) => b.playCount - a.playCount);
+
   onProgress?.({ stage: "calculating", progress: 85 });
   await yieldToBrowser();
 
@@ -476,29 +733,92 @@ export async function calculateStats(
     { date: "", totalDuration: 0, playCount: 0 },
   );
 
-  // Calculate listening sessions (songs played within 1 hour of each other)
+  const dailyListening: DailyListening[] = dailyStats
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((day) => {
+      let topSongKey: string | undefined;
+      let topSongPlays = 0;
+      for (const [songKey, playCount] of day.songs) {
+        if (playCount > topSongPlays) {
+          topSongKey = songKey;
+          topSongPlays = playCount;
+        }
+      }
+      const topSong = topSongKey ? songMap.get(topSongKey) : undefined;
+
+      return {
+        date: day.date,
+        playCount: day.playCount,
+        totalDuration: day.totalDuration,
+        topSong: topSong && {
+          title: topSong.title,
+          artist: topSong.artist,
+          playCount: topSongPlays,
+        },
+      };
+    });
+
+  const { longestStreak, currentStreak, longestGap } = calculateStreaks(
+    dailyListening.map((day) => day.date),
+    getLocalTime(new Date()).date,
+  );
+
+  // Calculate the monthly series, filling in months without plays
+  const newArtistsByMonth = new Map<string, number>();
+  for (const artist of artistMap.values()) {
+    const month = getLocalTime(artist.firstPlayed).date.slice(0, 7);
+    newArtistsByMonth.set(month, (newArtistsByMonth.get(month) || 0) + 1);
+  }
+
+  const months = Array.from(monthlyMap.keys()).sort();
+  const monthlyTrends: MonthlyTrend[] = [];
+  for (
+    let month = months[0];
+    month && month <= months[months.length - 1];
+    month = addMonths(month, 1)
+  ) {
+    const data = monthlyMap.get(month);
+    monthlyTrends.push({
+      month,
+      playCount: data?.playCount ?? 0,
+      totalDuration: data?.totalDuration ?? 0,
+      uniqueSongs: data?.songs.size ?? 0,
+      uniqueArtists: data?.artists.size ?? 0,
+      newArtists: newArtistsByMonth.get(month) ?? 0,
+    });
+  }
+
+  // Calculate listening sessions, split wherever the gap between two plays
+  // is longer than the session gap
   const sortedEntries = [...entries].sort(
     (a, b) => a.playedAt.getTime() - b.playedAt.getTime(),
   );
+  const sessions = buildSessions(
+    sortedEntries.map((entry) => {
+      const { resolvedArtist, duration } = resolvePlay(entry, metadata);
+      return {
+        title: entry.title,
+        artist: resolvedArtist,
+        playedAt: entry.playedAt,
+        duration,
+      };
+    }),
+    sessionGap,
+    true,
+  );
 
-  let longestSession = 0;
-  let currentSession = 0;
-  let lastPlayTime: Date | null = null;
-
-  for (const entry of sortedEntries) {
-    const duration = getDuration(entry);
-    if (
-      lastPlayTime &&
-      entry.playedAt.getTime() - lastPlayTime.getTime() <= 3600000
-    ) {
-      currentSession += duration;
-    } else {
-      longestSession = Math.max(longestSession, currentSession);
-      currentSession = duration;
-    }
-    lastPlayTime = entry.playedAt;
-  }
-  longestSession = Math.max(longestSession, currentSession);
+  const sessionCount = sessions.length;
+  const averageSessionDuration = sessionCount
+    ? sessions.reduce((sum, session) => sum + session.duration, 0) /
+      sessionCount
+    : 0;
+  const sessionsPerDay = dailyListening.length
+    ? sessionCount / dailyListening.length
+    : 0;
+  const topSessions = sessions
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, 10);
+  const longestSession = topSessions[0]?.duration ?? 0;
 
   onProgress?.({ stage: "finalizing", progress: 95 });
   await yieldToBrowser();
@@ -522,35 +842,16 @@ export async function calculateStats(
     totalListens > 0 ? totalPlaytime / totalListens : DEFAULT_SONG_DURATION;
 
   // Calculate current month stats
-  const now = new Date();
-  const currentMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-  currentMonthStart.setHours(0, 0, 0, 0); // Ensure start of day
-
-  let monthlyPlaytime = 0;
   let newArtistsThisMonth = 0;
-
-  const artistFirstPlayed = new Map<string, Date>();
   for (const artist of artistMap.values()) {
-    artistFirstPlayed.set(artist.name.toLowerCase(), artist.firstPlayed);
-    // Compare dates properly by normalizing to start of day
-    const firstPlayedDate = new Date(artist.firstPlayed);
-    firstPlayedDate.setHours(0, 0, 0, 0);
-    if (firstPlayedDate >= currentMonthStart) {
+    if (getLocalTime(artist.firstPlayed).date.slice(0, 7) >= currentMonth) {
       newArtistsThisMonth++;
     }
   }
 
-  for (const entry of entries) {
-    const entryDate = new Date(entry.playedAt);
-    entryDate.setHours(0, 0, 0, 0);
-    if (entryDate >= currentMonthStart) {
-      monthlyPlaytime += getDuration(entry);
-    }
-  }
-
   // Log for debugging (can be removed later)
   console.log("Monthly stats calculation:", {
-    currentMonth: currentMonthStart.toISOString(),
+    currentMonth,
     lastPlayDate: lastPlayDate?.toISOString(),
     monthlyPlaytime,
     newArtistsThisMonth,
@@ -645,6 +946,7 @@ export async function calculateStats(
     firstPlayDate,
     lastPlayDate,
     lastUpdated: new Date(),
+    timeZone,
     totalListens,
     monthlyPlaytime,
     dailyAverageListens,
@@ -652,8 +954,17 @@ export async function calculateStats(
     longestListenDay: longestDay.date ? new Date(longestDay.date) : undefined,
     longestListenDayDuration: longestDay.totalDuration,
     longestSession,
+    sessionGap,
+    sessionCount,
+    averageSessionDuration,
+    sessionsPerDay,
+    topSessions,
+    longestStreak,
+    currentStreak,
+    longestGap,
     topSongs,
     topArtists,
+    topAlbums,
     newArtistsThisMonth,
     totalNewArtists: artistMap.size,
     // Song Age statistics
@@ -664,6 +975,13 @@ export async function calculateStats(
     oldestSong,
     newestSong,
     songsWithYearCount,
+    listeningHeatmap: {
+      playCount: heatmapCounts,
+      totalDuration: heatmapDurations,
+    },
+    dailyListening,
+    monthlyTrends,
+    genreDistribution,
   };
 
   return stats;
@@ -0,0 +1,29 @@
+/**
+ * Play identity
+ *
+ * How a play is recognised across uploads - by the browser merging a new
+ * upload into the stored history, and by the server storing it.
+ */
+
+import type { ParsedSongInfo } from "@/lib/types/database";
+
+/**
+ * Key identifying the track of a play - the video ID when known,
+ * otherwise the normalized "artist - title"
+ */
+export function getPlayKey(play: ParsedSongInfo): string {
+  return (
+    play.youtubeId ||
+    `${play.artist.toLowerCase()} - ${play.title.toLowerCase()}`
+  );
+}
+
+/**
+ * Truncate a play time to whole seconds
+ *
+ * JSON exports carry milliseconds but HTML exports don't, so the same play
+ * from two uploads only matches at second precision.
+ */
+export function normalizePlayedAt(playedAt: Date): Date {
+  return new Date(Math.floor(playedAt.getTime() / 1000) * 1000);
+}
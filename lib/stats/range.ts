@@ -0,0 +1,172 @@
+/**
+ * Date ranges for statistics
+ *
+ * Resolves a `StatsRange` to concrete bounds and converts it to and from
+ * the query parameters `GET /api/stats` accepts.
+ */
+
+import type { StatsRange } from "@/lib/types/database";
+import {
+  addDays,
+  getDefaultTimeZone,
+  getLocalDate,
+  startOfLocalDay,
+} from "./time-zone";
+
+// "Last N days" presets offered in the dashboard
+export const LAST_DAYS_PRESETS = [7, 30, 90] as const;
+
+export interface RangeBounds {
+  /** Earliest included play time, unbounded when missing */
+  from?: Date;
+  /** Latest included play time, unbounded when missing */
+  to?: Date;
+}
+
+/**
+ * Last instant of a local calendar day (YYYY-MM-DD)
+ */
+function endOfLocalDay(date: string, timeZone: string): Date {
+  return new Date(startOfLocalDay(addDays(date, 1), timeZone).getTime() - 1);
+}
+
+/**
+ * Resolve a range to concrete bounds, with days starting at midnight in
+ * the given time zone
+ */
+export function getRangeBounds(
+  range: StatsRange,
+  timeZone: string = getDefaultTimeZone(),
+  now: Date = new Date(),
+): RangeBounds {
+  switch (range.type) {
+    case "all":
+      return {};
+    case "last": {
+      const today = getLocalDate(now, timeZone);
+      return {
+        from: startOfLocalDay(addDays(today, 1 - range.days), timeZone),
+      };
+    }
+    case "year":
+      return {
+        from: startOfLocalDay(`${range.year}-01-01`, timeZone),
+        to: endOfLocalDay(`${range.year}-12-31`, timeZone),
+      };
+    case "custom":
+      return { from: range.from, to: range.to };
+  }
+}
+
+/**
+ * Build a custom range covering whole days, from `from` to `to` inclusive
+ *
+ * `from` and `to` are calendar picks (local midnight in the browser); the
+ * days they name are resolved in `timeZone`.
+ */
+export function createDayRange(
+  from: Date,
+  to: Date = from,
+  timeZone: string = getDefaultTimeZone(),
+): StatsRange {
+  return {
+    type: "custom",
+    from: startOfLocalDay(getLocalDate(from, getDefaultTimeZone()), timeZone),
+    to: endOfLocalDay(getLocalDate(to, getDefaultTimeZone()), timeZone),
+  };
+}
+
+/**
+ * Check if a play time falls within the bounds
+ */
+export function isInRange(date: Date, bounds: RangeBounds): boolean {
+  return (
+    (!bounds.from || date >= bounds.from) && (!bounds.to || date <= bounds.to)
+  );
+}
+
+/**
+ * Query parameters for `GET /api/stats`
+ *
+ * Presets are sent as-is so the server resolves them in the user's time
+ * zone; custom ranges are sent as the bounds picked.
+ */
+export function rangeToSearchParams(range: StatsRange): URLSearchParams {
+  const params = new URLSearchParams();
+  switch (range.type) {
+    case "all":
+      break;
+    case "last":
+      params.set("range", `${range.days}d`);
+      break;
+    case "year":
+      params.set("year", String(range.year));
+      break;
+    case "custom":
+      params.set("from", range.from.toISOString());
+      params.set("to", range.to.toISOString());
+      break;
+  }
+  return params;
+}
+
+function parseDate(value: string): Date | null {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse the range query parameters of `GET /api/stats`
+ *
+ * Accepts `from`/`to` timestamps, `range=7d|30d|90d` or `year=YYYY`.
+ * Returns `{ type: "all" }` when none are given and null when invalid.
+ */
+export function parseRangeParams(params: URLSearchParams): StatsRange | null {
+  const range = params.get("range");
+  const year = params.get("year");
+  const from = params.get("from");
+  const to = params.get("to");
+
+  if (range) {
+    if (range === "all") return { type: "all" };
+    const match = range.match(/^(\d+)d$/);
+    const days = match ? Number.parseInt(match[1], 10) : 0;
+    return days > 0 && days <= 3660 ? { type: "last", days } : null;
+  }
+
+  if (year) {
+    const value = Number.parseInt(year, 10);
+    return /^\d{4}$/.test(year) ? { type: "year", year: value } : null;
+  }
+
+  if (from || to) {
+    const fromDate = from ? parseDate(from) : new Date(0);
+    const toDate = to ? parseDate(to) : new Date();
+    if (!fromDate || !toDate || fromDate > toDate) return null;
+    return { type: "custom", from: fromDate, to: toDate };
+  }
+
+  return { type: "all" };
+}
+
+/**
+ * Human-readable label for a range
+ */
+export function formatStatsRange(
+  range: StatsRange,
+  timeZone: string = getDefaultTimeZone(),
+): string {
+  switch (range.type) {
+    case "all":
+      return "All time";
+    case "last":
+      return `Last ${range.days} days`;
+    case "year":
+      return String(range.year);
+    case "custom": {
+      const from = range.from.toLocaleDateString(undefined, { timeZone });
+      const to = range.to.toLocaleDateString(undefined, { timeZone });
+      return from === to ? from : `${from} – ${to}`;
+    }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Ranked song and artist lists
+ *
+ * Paging and sorting for `GET /api/stats/songs` and `GET /api/stats/artists`,
+ * shared by the routes and the dashboard tables.
+ */
+
+import type { ArtistSort, SongSort, StatsRange } from "@/lib/types/database";
+import { rangeToSearchParams } from "./range";
+
+export const SONG_SORTS: readonly SongSort[] = ["plays", "duration"];
+export const ARTIST_SORTS: readonly ArtistSort[] = [
+  "plays",
+  "duration",
+  "songs",
+];
+
+export const SORT_LABELS: Record<ArtistSort, string> = {
+  plays: "Plays",
+  duration: "Time listened",
+  songs: "Unique songs",
+};
+
+// Page sizes offered in the dashboard tables
+export const RANKING_PAGE_SIZES = [10, 25, 50, 100] as const;
+
+export const DEFAULT_RANKING_LIMIT = 25;
+export const MAX_RANKING_LIMIT = 500;
+
+export interface RankingQuery<TSort extends string> {
+  sort: TSort;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Query parameters for a page of a ranked list over a date range
+ */
+export function rankingToSearchParams<TSort extends string>(
+  range: StatsRange,
+  { sort, limit, offset }: RankingQuery<TSort>,
+): URLSearchParams {
+  const params = rangeToSearchParams(range);
+  params.set("sort", sort);
+  params.set("limit", String(limit));
+  params.set("offset", String(offset));
+  return params;
+}
+
+/**
+ * Parse the paging and sorting parameters of a ranked list endpoint
+ *
+ * Missing values fall back to the defaults; returns null when invalid.
+ */
+export function parseRankingParams<TSort extends string>(
+  params: URLSearchParams,
+  sorts: readonly TSort[],
+): RankingQuery<TSort> | null {
+  const sort = params.get("sort") || sorts[0];
+  const limit = Number(params.get("limit") || DEFAULT_RANKING_LIMIT);
+  const offset = Number(params.get("offset") || 0);
+
+  if (
+    !sorts.includes(sort as TSort) ||
+    !Number.isInteger(limit) ||
+    limit < 1 ||
+    limit > MAX_RANKING_LIMIT ||
+    !Number.isInteger(offset) ||
+    offset < 0
+  ) {
+    return null;
+  }
+
+  return { sort: sort as TSort, limit, offset };
+}
+
+/**
+ * Dashboard page of a single artist
+ */
+export function getArtistHref(name: string): string {
+  return `/dashboard/artists/${encodeURIComponent(name)}`;
+}
+
+/**
+ * Dashboard page of a single song, by its song key
+ */
+export function getSongHref(songKey: string): string {
+  return `/dashboard/songs/${encodeURIComponent(songKey)}`;
+}
+
+/**
+ * Decode a dynamic route segment, leaving it as-is if it isn't encoded
+ */
+export function decodeRouteParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
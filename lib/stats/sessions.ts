@@ -0,0 +1,93 @@
+/**
+ * Listening sessions
+ *
+ * A session is a run of plays where each starts within the session gap of
+ * the one before it. The gap is configurable per user, in minutes.
+ */
+
+import type { ListeningSession } from "@/lib/types/database";
+
+export const DEFAULT_SESSION_GAP = 60;
+export const MIN_SESSION_GAP = 5;
+export const MAX_SESSION_GAP = 720;
+
+// Gaps offered in the dashboard, in minutes
+export const SESSION_GAP_OPTIONS = [15, 30, 60, 120, 180] as const;
+
+// Most tracks kept on a session - longer ones still count all of theirs
+const MAX_SESSION_TRACKS = 100;
+
+/**
+ * A play, as far as sessions are concerned
+ */
+export interface SessionPlay {
+  title: string;
+  artist: string;
+  playedAt: Date;
+  /** Listening duration in seconds */
+  duration: number;
+}
+
+/**
+ * Check that a session gap is a whole number of minutes in the allowed range
+ */
+export function isValidSessionGap(gap: number): boolean {
+  return (
+    Number.isInteger(gap) && gap >= MIN_SESSION_GAP && gap <= MAX_SESSION_GAP
+  );
+}
+
+/**
+ * Format a session gap for display, e.g. "30 min" or "2 h"
+ */
+export function formatSessionGap(gap: number): string {
+  return gap % 60 === 0 ? `${gap / 60} h` : `${gap} min`;
+}
+
+/**
+ * Split plays into sessions, oldest first
+ *
+ * @param plays - Plays sorted by `playedAt`
+ * @param gap - Minutes between two plays' starts that end a session
+ * @param withTracks - Keep the tracks played in each session
+ */
+export function buildSessions(
+  plays: SessionPlay[],
+  gap = DEFAULT_SESSION_GAP,
+  withTracks = false,
+): ListeningSession[] {
+  const gapMs = gap * 60 * 1000;
+  const sessions: ListeningSession[] = [];
+  let current: ListeningSession | undefined;
+  let lastStart = 0;
+
+  for (const play of plays) {
+    const start = play.playedAt.getTime();
+    const end = new Date(start + play.duration * 1000);
+
+    if (!current || start - lastStart > gapMs) {
+      current = {
+        start: play.playedAt,
+        end,
+        duration: 0,
+        trackCount: 0,
+        tracks: withTracks ? [] : undefined,
+      };
+      sessions.push(current);
+    }
+
+    current.duration += play.duration;
+    current.trackCount++;
+    if (end > current.end) current.end = end;
+    if (current.tracks && current.tracks.length < MAX_SESSION_TRACKS) {
+      current.tracks.push({
+        title: play.title,
+        artist: play.artist,
+        playedAt: play.playedAt,
+      });
+    }
+    lastStart = start;
+  }
+
+  return sessions;
+}
@@ -0,0 +1,186 @@
+/**
+ * Time zone helpers for stats
+ *
+ * Plays are stored in UTC, but "which hour/day did I listen" has to be
+ * answered in the listener's own time zone. Works the same in the
+ * browser, the worker and on the server.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Offsets are whole multiples of 15 minutes, so local time can be cached
+// per 15-minute bucket
+const BUCKET_MS = 15 * 60 * 1000;
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface LocalTime {
+  /** Local calendar date as YYYY-MM-DD */
+  date: string;
+  /** Day of the week, 0 = Sunday */
+  dayOfWeek: number;
+  /** Hour of the day, 0-23 */
+  hour: number;
+}
+
+/**
+ * Get the time zone the browser (or server) runs in
+ */
+export function getDefaultTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/**
+ * Check if a string is an IANA time zone name the runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pick the first valid time zone, falling back to UTC
+ */
+export function resolveTimeZone(
+  ...candidates: (string | null | undefined)[]
+): string {
+  return (
+    candidates.find(
+      (timeZone): timeZone is string => !!timeZone && isValidTimeZone(timeZone),
+    ) ?? "UTC"
+  );
+}
+
+/**
+ * Get the local calendar date (YYYY-MM-DD) of an instant
+ */
+export function getLocalDate(date: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of calendar days
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Shift a YYYY-MM month by a number of calendar months
+ */
+export function addMonths(month: string, months: number): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + months, 1))
+    .toISOString()
+    .slice(0, 7);
+}
+
+/**
+ * Number of calendar days from one YYYY-MM-DD date to another
+ */
+export function daysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = from.split("-").map(Number);
+  const [toYear, toMonth, toDay] = to.split("-").map(Number);
+  return Math.round(
+    (Date.UTC(toYear, toMonth - 1, toDay) -
+      Date.UTC(fromYear, fromMonth - 1, fromDay)) /
+      DAY_MS,
+  );
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts: Record<string, string> = {};
+  for (const part of new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(time)) {
+    parts[part.type] = part.value;
+  }
+
+  const wallTime = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour) % 24,
+    Number(parts.minute),
+    Number(parts.second),
+  );
+  return wallTime - (time - (((time % 1000) + 1000) % 1000));
+}
+
+/**
+ * Get the instant a local calendar day (YYYY-MM-DD) starts in a time zone
+ */
+export function startOfLocalDay(date: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const midnight = Date.UTC(year, month - 1, day);
+
+  // The offset at UTC midnight can differ from the one at local midnight
+  // around DST changes, so try both and keep the earliest instant that is
+  // on the day (zones that skip midnight start the day at 1am)
+  const first = midnight - getTimeZoneOffset(midnight, timeZone);
+  const second = midnight - getTimeZoneOffset(first, timeZone);
+  const start = [Math.min(first, second), Math.max(first, second)].find(
+    (time) => getLocalDate(new Date(time), timeZone) === date,
+  );
+  return new Date(start ?? second);
+}
+
+/**
+ * Create a cached converter from instants to local date/weekday/hour
+ */
+export function createLocalTimeResolver(
+  timeZone: string,
+): (date: Date) => LocalTime {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    weekday: "short",
+    hour: "2-digit",
+    hourCycle: "h23",
+  });
+  const cache = new Map<number, LocalTime>();
+
+  return (date: Date) => {
+    const bucket = Math.floor(date.getTime() / BUCKET_MS);
+    const cached = cache.get(bucket);
+    if (cached) return cached;
+
+    const parts: Record<string, string> = {};
+    for (const part of formatter.formatToParts(date)) {
+      parts[part.type] = part.value;
+    }
+
+    const local: LocalTime = {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+      hour: Number.parseInt(parts.hour, 10) % 24,
+    };
+    cache.set(bucket, local);
+    return local;
+  };
+}
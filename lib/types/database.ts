@@ -13,6 +13,10 @@ export interface ParseProgress {
   totalEntries?: number;
   /** Number of music-related entries found */
   musicEntries?: number;
+  /** Number of bytes of the file read so far */
+  bytesRead?: number;
+  /** Total size of the file in bytes */
+  totalBytes?: number;
 }
 
 /**
@@ -26,10 +30,145 @@ export interface ParseResult {
   totalEntries: number;
   /** Number of entries identified as music */
   musicEntries: number;
+  /** Detected export language (e.g. "en", "de") */
+  locale?: string;
   /** Error message if parsing failed */
   error?: string;
 }
 
+/**
+ * Represents the progress state while calculating statistics.
+ * Used to track and display calculation progress to users.
+ */
+export interface StatsProgress {
+  /** Current stage of the calculation */
+  stage: "grouping" | "calculating" | "finalizing" | "complete";
+  /** Progress percentage (0-100) */
+  progress: number;
+}
+
+/**
+ * Time window statistics are calculated over.
+ * - `all`: the whole history
+ * - `last`: the last N days, including today
+ * - `year`: a calendar year
+ * - `custom`: an explicit from/to window (both inclusive)
+ */
+export type StatsRange =
+  | { type: "all" }
+  | { type: "last"; days: number }
+  | { type: "year"; year: number }
+  | { type: "custom"; from: Date; to: Date };
+
+/**
+ * Options for calculating statistics.
+ */
+export interface StatsOptions {
+  /** Date range to restrict the stats to (defaults to all time) */
+  range?: StatsRange;
+  /** IANA time zone days and hours are counted in (defaults to the runtime's) */
+  timeZone?: string;
+  /** Minutes between plays that end a listening session (defaults to 60) */
+  sessionGap?: number;
+  /** Device class the work is batched for (defaults to "high") */
+  capability?: "high" | "low";
+}
+
+/**
+ * Listening on a single day, in the listener's time zone.
+ */
+export interface DailyListening {
+  /** Local calendar date as YYYY-MM-DD */
+  date: string;
+  /** Number of plays that day */
+  playCount: number;
+  /** Listening duration that day in seconds */
+  totalDuration: number;
+  /** Most played song that day */
+  topSong?: {
+    title: string;
+    artist: string;
+    playCount: number;
+  };
+}
+
+/**
+ * How much and how widely a user listened in one calendar month, in the
+ * listener's time zone.
+ */
+export interface MonthlyTrend extends MonthlyListening {
+  /** Number of different songs played that month */
+  uniqueSongs: number;
+  /** Number of different artists played that month */
+  uniqueArtists: number;
+  /** Number of artists played for the first time that month */
+  newArtists: number;
+}
+
+/**
+ * How much of a user's listening went to one genre.
+ */
+export interface GenreShare {
+  /** Genre name */
+  genre: string;
+  /** Plays of songs with this as their main genre */
+  playCount: number;
+  /** Listening duration in seconds */
+  totalDuration: number;
+  /** Rounded share (0-100) of the plays that have a known genre */
+  percentage: number;
+}
+
+/**
+ * A track played during a listening session.
+ */
+export interface SessionTrack {
+  title: string;
+  artist: string;
+  /** When the track started */
+  playedAt: Date;
+}
+
+/**
+ * A stretch of listening without a break longer than the session gap.
+ */
+export interface ListeningSession {
+  /** When the first track started */
+  start: Date;
+  /** When the last track ended */
+  end: Date;
+  /** Listening duration in seconds */
+  duration: number;
+  /** Number of tracks played */
+  trackCount: number;
+  /** Tracks in the order they were played (only kept for the top sessions) */
+  tracks?: SessionTrack[];
+}
+
+/**
+ * A run of consecutive local calendar days. Days are stored as midnight
+ * UTC, like `longestListenDay`.
+ */
+export interface DayStreak {
+  /** Number of days in the run */
+  days: number;
+  /** First day of the run */
+  start: Date;
+  /** Last day of the run */
+  end: Date;
+}
+
+/**
+ * Plays by day of week and hour of day, in the listener's time zone.
+ * Rows are days (0 = Sunday), columns are hours (0-23).
+ */
+export interface ListeningHeatmap {
+  /** 7x24 play counts */
+  playCount: number[][];
+  /** 7x24 listening durations in seconds */
+  totalDuration: number[][];
+}
+
 /**
  * User statistics aggregated from their listening history.
  * Contains comprehensive analytics about user's music consumption.
@@ -63,6 +202,8 @@ export interface IUserStats {
   lastPlayDate?: Date;
   /** Timestamp of when stats were last calculated */
   lastUpdated: Date;
+  /** IANA time zone days, months and hours were counted in */
+  timeZone?: string;
   /** Total play count (can exceed unique songs due to replays) */
   totalListens: number;
   /** Total playtime for the current month in seconds */
@@ -71,12 +212,34 @@ export interface IUserStats {
   dailyAverageListens: number;
   /** Average playtime per day in seconds */
   dailyAveragePlaytime: number;
-  /** Date with the highest listening duration */
+  /**
+   * Local calendar day with the highest listening duration, stored as
+   * midnight UTC - format it in UTC to get the day back
+   */
   longestListenDay?: Date;
   /** Duration of the longest listening day in seconds */
   longestListenDayDuration: number;
   /** Longest continuous listening session in seconds */
   longestSession: number;
+  /** Minutes between plays that ended a session when these were counted */
+  sessionGap?: number;
+  /** Number of listening sessions */
+  sessionCount?: number;
+  /** Average session length in seconds */
+  averageSessionDuration?: number;
+  /** Average number of sessions on days with plays */
+  sessionsPerDay?: number;
+  /** The 10 longest sessions, longest first, with what was played */
+  topSessions?: ListeningSession[];
+  /** Most consecutive days with at least one play */
+  longestStreak?: DayStreak;
+  /**
+   * Consecutive days with plays up to today, or up to yesterday when
+   * nothing has been played yet today
+   */
+  currentStreak?: DayStreak;
+  /** Most consecutive days without a play, between the first and last play */
+  longestGap?: DayStreak;
   /**
    * Top 10 most played songs with detailed statistics.
    * Sorted by play count in descending order.
@@ -86,18 +249,9 @@ export interface IUserStats {
    * Top 10 most listened artists with detailed statistics.
    * Sorted by play count in descending order.
    */
-  topArtists: Array<{
-    /** Artist name */
-    name: string;
-    /** Total number of plays across all songs */
-    playCount: number;
-    /** Total duration listened in seconds */
-    totalDuration: number;
-    /** Number of unique songs by this artist */
-    uniqueSongs: number;
-    /** Artist image URL (from YouTube channel thumbnail) */
-    artistImage?: string;
-  }>;
+  topArtists: TopArtist[];
+  /** Top 10 most played albums, where album information is known */
+  topAlbums?: TopAlbum[];
   /** Number of new artists discovered in the current month */
   newArtistsThisMonth: number;
   /** Total number of artists discovered since first play */
@@ -130,6 +284,18 @@ export interface IUserStats {
   };
   /** Number of songs with detected release years */
   songsWithYearCount?: number;
+
+  /** When in the week you listen - day of week by hour of day */
+  listeningHeatmap?: ListeningHeatmap;
+
+  /** Listening per day, oldest first (days without plays are left out) */
+  dailyListening?: DailyListening[];
+
+  /** Listening per month, oldest first, months without plays included */
+  monthlyTrends?: MonthlyTrend[];
+
+  /** Breakdown of listening by each song's main genre, most played first */
+  genreDistribution?: GenreShare[];
 }
 
 /**
@@ -168,18 +334,36 @@ export interface ISong {
   artistImage?: string;
   /** Release/publish date from YouTube */
   releaseDate?: Date;
+  /** Album, from the auto-generated description of "Topic" art tracks */
+  album?: string;
   /** Array of genre tags */
   genres?: string[];
   /** Number of times this song was played (used in stats) */
   playCount?: number;
   /** Total duration listened in seconds (used in stats) */
   totalDuration?: number;
+  /** When the metadata providers were last asked about the song */
+  lastFetchedAt?: Date;
+  /** What the providers said the last time they were asked */
+  fetchStatus?: SongFetchStatus;
   /** Document creation timestamp */
   createdAt?: Date;
   /** Last update timestamp */
   updatedAt?: Date;
 }
 
+/**
+ * Whether a cached song's video could still be looked up:
+ * - `ok` - the providers found it
+ * - `notFound` - no provider knows it any more
+ * - `private` - the video was made private
+ * - `removed` - the video was taken down or deleted
+ *
+ * Songs that can't be found keep the metadata cached before. Videos that
+ * were never found are cached with only their status.
+ */
+export type SongFetchStatus = "ok" | "notFound" | "private" | "removed";
+
 /**
  * Raw entry structure from Google Takeout JSON export.
  * Represents a single activity entry from YouTube Music history.
@@ -225,6 +409,186 @@ export interface ParsedSongInfo {
   playedAt: Date;
 }
 
+/**
+ * Where a play's duration comes from.
+ * - `metadata`: the video length from YouTube
+ * - `estimate`: guessed from the title (no metadata available)
+ */
+export type DurationSource = "metadata" | "estimate";
+
+/**
+ * A parsed play with the artist, song and duration stats attribute it to.
+ */
+export interface ResolvedPlay extends ParsedSongInfo {
+  /** Artist after metadata resolution (the parsed one may be generic) */
+  resolvedArtist: string;
+  /** Normalized song key in format "artist - title" */
+  songKey: string;
+  /** Duration in seconds */
+  duration: number;
+  /** Where the duration comes from */
+  durationSource: DurationSource;
+}
+
+/**
+ * A single play stored in the user's listening history.
+ * Plays from every upload are kept, so history older than Google's
+ * retention window survives new uploads, and stats can be re-queried.
+ */
+export interface IPlay extends ResolvedPlay {
+  /** ID of the user the play belongs to */
+  userId: string;
+  /**
+   * De-duplication key - the YouTube video ID, or the normalized
+   * "artist - title" when the entry has no video link
+   */
+  playKey: string;
+}
+
+/**
+ * Result of adding plays to the stored listening history.
+ */
+export interface PlayImportResult {
+  /** Number of plays that were not stored yet */
+  inserted: number;
+  /** Number of plays that were already stored */
+  duplicates: number;
+}
+
+/**
+ * An artist ranked by how much they were listened to.
+ */
+export interface TopArtist {
+  /** Artist name */
+  name: string;
+  /** Total number of plays across all songs */
+  playCount: number;
+  /** Total duration listened in seconds */
+  totalDuration: number;
+  /** Number of unique songs by this artist */
+  uniqueSongs: number;
+  /** Artist image URL (from YouTube channel thumbnail) */
+  artistImage?: string;
+}
+
+/**
+ * An album ranked by how much it was listened to.
+ */
+export interface TopAlbum {
+  /** Album title */
+  name: string;
+  /** Artist the album is credited to */
+  artist: string;
+  /** Total number of plays across its songs */
+  playCount: number;
+  /** Total duration listened in seconds */
+  totalDuration: number;
+  /** Number of the album's songs that were played */
+  uniqueSongs: number;
+  /** Cover art URL (the thumbnail of one of its art tracks) */
+  thumbnail?: string;
+}
+
+/**
+ * What ranked song lists can be ordered by.
+ */
+export type SongSort = "plays" | "duration";
+
+/**
+ * What ranked artist lists can be ordered by.
+ */
+export type ArtistSort = SongSort | "songs";
+
+/**
+ * Options for ranking a user's songs or artists from their plays.
+ */
+export interface RankingOptions<TSort extends string> {
+  /** Field to rank by, highest first */
+  sort: TSort;
+  /** Maximum number of entries to return */
+  limit: number;
+  /** Number of entries to skip */
+  offset: number;
+  /** Only count plays from this time on */
+  from?: Date;
+  /** Only count plays up to this time */
+  to?: Date;
+}
+
+/**
+ * One page of a ranked list.
+ */
+export interface PaginatedResult<T> {
+  /** Entries on this page */
+  items: T[];
+  /** Number of entries across all pages */
+  total: number;
+  /** Page size that was used */
+  limit: number;
+  /** Number of entries before this page */
+  offset: number;
+}
+
+/**
+ * Listening in one calendar month, in the user's time zone.
+ */
+export interface MonthlyListening {
+  /** Month in YYYY-MM format */
+  month: string;
+  /** Number of plays in that month */
+  playCount: number;
+  /** Total duration listened in seconds */
+  totalDuration: number;
+}
+
+/**
+ * Everything a user has listened to by one artist.
+ */
+export interface ArtistDetail extends TopArtist {
+  /** First time one of the artist's songs was played */
+  firstPlayed: Date;
+  /** Last time one of the artist's songs was played */
+  lastPlayed: Date;
+  /** Fraction (0-1) of all the user's plays that were this artist */
+  playShare: number;
+  /** Fraction (0-1) of the user's total listening time spent on this artist */
+  durationShare: number;
+  /** Plays per month, from the first listen to the last, gaps included */
+  timeline: MonthlyListening[];
+  /** The artist's songs, most played first */
+  songs: ISong[];
+}
+
+/**
+ * A song's listening in one month, with where it ranked that month.
+ */
+export interface SongMonthlyListening extends MonthlyListening {
+  /** Rank among all songs played that month by plays, if it was played */
+  rank?: number;
+}
+
+/**
+ * Everything a user has listened to of one song.
+ */
+export interface SongDetail extends ISong {
+  /** First time the song was played */
+  firstPlayed: Date;
+  /** Last time the song was played */
+  lastPlayed: Date;
+  /** Plays and rank per month, from the first listen to the last */
+  timeline: SongMonthlyListening[];
+}
+
+/**
+ * A calendar year with listening history.
+ */
+export interface ListeningYear {
+  /** Calendar year */
+  year: number;
+  /** Number of plays in that year */
+  plays: number;
+}
+
 /**
  * Generic API response wrapper for consistent response structure.
  * Use this type for all API endpoints to ensure consistent response format.
@@ -271,6 +635,11 @@ export interface LookupStats {
   fetched: number;
   /** Number of songs that couldn't be found */
   notFound: number;
+  /**
+   * Number of uncached songs that couldn't be looked up because the API
+   * quota ran out or requests kept failing
+   */
+  unresolved: number;
 }
 
 /**
@@ -286,6 +655,12 @@ export interface LookupResult {
   stats?: LookupStats;
   /** Error message if lookup failed */
   error?: string;
+  /** The daily YouTube API quota ran out during the lookup */
+  quotaExhausted?: boolean;
+  /** Video IDs that couldn't be looked up - their songs use estimates */
+  unresolvedIds?: string[];
+  /** Uncached video IDs left for the enrichment job (cache-only lookups) */
+  pendingIds?: string[];
 }
 
 /**
@@ -305,4 +680,139 @@ export interface FetchProgress {
   currentBatch: number;
   /** Total number of batches to process */
   totalBatches: number;
+  /** Number of songs that couldn't be looked up and use estimates */
+  unresolved: number;
+  /** The daily YouTube API quota ran out */
+  quotaExhausted: boolean;
+}
+
+/**
+ * Song metadata fetched for an upload.
+ */
+export interface SongMetadataResult {
+  /** Metadata by video ID */
+  metadata: Map<string, ISong>;
+  /** Video IDs that couldn't be looked up */
+  unresolvedIds: string[];
+  /**
+   * Uncached video IDs, and ones whose lookup failed, left for the
+   * enrichment job
+   */
+  pendingIds: string[];
+  /** The daily YouTube API quota ran out */
+  quotaExhausted: boolean;
+}
+
+/**
+ * YouTube Data API units spent on one quota day. Quota days start at
+ * midnight Pacific Time, when YouTube resets the quota.
+ */
+export interface IApiQuota {
+  /** Quota day as YYYY-MM-DD */
+  day: string;
+  /** Units spent so far */
+  units: number;
+}
+
+/**
+ * Units a user spent on a rate-limited action in one window
+ */
+export interface IRateLimit {
+  /** The action and user, e.g. `song-lookup:<userId>` */
+  key: string;
+  /** Start of the window */
+  windowStart: Date;
+  /** Units spent in the window */
+  count: number;
+  /** When the window's document can be removed */
+  expiresAt: Date;
+}
+
+/**
+ * Outcome of spending from a rate limit
+ */
+export interface RateLimitResult {
+  /** Whether the units were available - when not, nothing is spent */
+  allowed: boolean;
+  /** Seconds until the window resets */
+  retryAfter: number;
+}
+
+/**
+ * A song whose metadata couldn't be looked up, so its duration and artist
+ * are estimated from the Takeout entry.
+ */
+export interface EstimatedSong {
+  youtubeId: string;
+  title: string;
+  artist: string;
+  /** Plays of the song in the user's history */
+  playCount: number;
+}
+
+/**
+ * Lifecycle of a metadata enrichment job.
+ */
+export type EnrichmentJobStatus = "queued" | "running" | "completed" | "failed";
+
+/**
+ * A background job looking up metadata for an upload's uncached songs,
+ * then recalculating the user's stats with it.
+ */
+export interface IEnrichmentJob {
+  /** ID of the user the job belongs to */
+  userId: string;
+  /**
+   * Video IDs to look up - kept out of status reads, and read a chunk at a
+   * time while the job runs
+   */
+  videoIds: string[];
+  /** Number of video IDs in the job */
+  total: number;
+  status: EnrichmentJobStatus;
+  /** Time zone the stats are recalculated in */
+  timeZone: string;
+  /** Session gap the stats are recalculated with, in minutes */
+  sessionGap: number;
+  /**
+   * Number of video IDs looked up so far - the cursor the next chunk of
+   * the job starts from
+   */
+  processed: number;
+  /** Number of songs found by the metadata providers */
+  fetched: number;
+  /** Number of songs that couldn't be looked up and keep their estimates */
+  unresolved: number;
+  /** Video IDs that couldn't be looked up */
+  unresolvedIds: string[];
+  /** The job is waiting for the daily YouTube API quota to reset */
+  quotaExhausted: boolean;
+  /** Most played songs that still use estimates */
+  estimatedSongs: EstimatedSong[];
+  /** Why the job failed */
+  error?: string;
+  /** Until when a chunk of the job is being run - others wait for it */
+  leaseExpiresAt?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  /** Document creation timestamp */
+  createdAt?: Date;
+  /** Last update timestamp */
+  updatedAt?: Date;
+}
+
+/**
+ * Enrichment job status as returned to the client.
+ */
+export interface EnrichmentJobSummary
+  extends Omit<
+    IEnrichmentJob,
+    | "userId"
+    | "videoIds"
+    | "timeZone"
+    | "sessionGap"
+    | "unresolvedIds"
+    | "leaseExpiresAt"
+  > {
+  id: string;
 }
@@ -0,0 +1,100 @@
+import type { ISong, SongFetchStatus } from "./database";
+
+/**
+ * Song fields a metadata provider can fill in.
+ */
+export type MetadataField =
+  | "title"
+  | "artist"
+  | "channelTitle"
+  | "duration"
+  | "thumbnail"
+  | "artistImage"
+  | "releaseDate"
+  | "album"
+  | "genres";
+
+/**
+ * Metadata a provider found for a song - any field may be missing.
+ */
+export type SongMetadata = Partial<Pick<ISong, MetadataField>>;
+
+/**
+ * Why a provider knows a video can't be looked up.
+ */
+export type VideoUnavailability = Extract<
+  SongFetchStatus,
+  "private" | "removed"
+>;
+
+/**
+ * A song to look up by name rather than by video.
+ */
+export interface ArtistTitleQuery {
+  artist: string;
+  title: string;
+}
+
+/**
+ * Result of a provider's lookup by video ID.
+ */
+export interface ProviderLookup {
+  /** Metadata by video ID */
+  songs: Map<string, SongMetadata>;
+  /**
+   * IDs the provider failed to look up, as opposed to ones it doesn't know
+   * about
+   */
+  failedIds: string[];
+  /** IDs the provider knows are private or removed */
+  unavailable?: Map<string, VideoUnavailability>;
+  /** The provider's API quota ran out */
+  quotaExhausted?: boolean;
+}
+
+/**
+ * A source of song metadata.
+ */
+export interface MetadataProvider {
+  /** Name used to refer to the provider in field precedence, e.g. "youtube" */
+  name: string;
+  /** Look up songs by YouTube video ID */
+  lookupByVideoIds(videoIds: string[]): Promise<ProviderLookup>;
+  /**
+   * Look up songs by artist and title, keyed by `getQueryKey(query)` -
+   * providers that can only search by video leave this out
+   */
+  lookupByArtistTitle?(
+    queries: ArtistTitleQuery[],
+  ): Promise<Map<string, SongMetadata>>;
+}
+
+/**
+ * Providers to take each field from, by name. The first provider with a
+ * value wins; fields without an entry, and providers not listed, follow the
+ * order of the chain.
+ */
+export type FieldPrecedence = Partial<Record<MetadataField, string[]>>;
+
+/**
+ * Result of looking songs up through a provider chain.
+ */
+export interface MetadataLookup {
+  /** Songs with at least a title, artist and duration, by video ID */
+  songs: Map<string, ISong>;
+  /** IDs no provider resolved because a lookup failed */
+  unresolvedIds: string[];
+  /** IDs no provider resolved that a provider knows are private or removed */
+  unavailable: Map<string, VideoUnavailability>;
+  /** A provider's API quota ran out */
+  quotaExhausted: boolean;
+}
+
+/**
+ * A song in an offline fixture file. Dates are ISO strings, as in JSON.
+ */
+export interface FixtureSong extends Omit<SongMetadata, "releaseDate"> {
+  /** YouTube video ID, for lookups by video */
+  videoId?: string;
+  releaseDate?: string;
+}
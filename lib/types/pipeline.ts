@@ -0,0 +1,71 @@
+import type {
+  FetchProgress,
+  IUserStats,
+  LookupResult,
+  ParseProgress,
+  StatsProgress,
+} from "./database";
+
+/**
+ * Stages of the upload processing pipeline that runs in the worker.
+ */
+export type PipelineStage =
+  | "parsing"
+  | "merging"
+  | "fetching"
+  | "calculating"
+  | "saving";
+
+/**
+ * Summary of a finished pipeline run.
+ */
+export interface PipelineResult {
+  /** Calculated statistics, ready to be saved */
+  stats: IUserStats;
+  /** Total number of entries found in the file */
+  totalEntries: number;
+  /** Number of entries identified as music */
+  musicEntries: number;
+  /** Plays from this upload that weren't in the stored history yet */
+  newPlays: number;
+  /** Plays in the combined history the stats were calculated from */
+  historyPlays: number;
+  /** Number of unique songs metadata was found for */
+  metadataCount: number;
+  /**
+   * Videos not in the song cache yet - their songs use estimates until the
+   * enrichment job has looked them up
+   */
+  pendingVideoIds: string[];
+}
+
+/**
+ * Messages sent from the main thread to the pipeline worker.
+ */
+export type PipelineRequest =
+  /**
+   * Start processing the given file, counting days in `timeZone` and
+   * ending sessions after `sessionGap` minutes without plays
+   */
+  | { type: "start"; file: File; timeZone: string; sessionGap: number }
+  /** Abort the running job */
+  | { type: "cancel" }
+  /** Answer to a `lookup` event, forwarded from the `lookupSongs` action */
+  | { type: "lookup-result"; requestId: number; result: LookupResult };
+
+/**
+ * Messages sent from the pipeline worker back to the main thread.
+ */
+export type PipelineEvent =
+  | { type: "stage"; stage: PipelineStage }
+  | { type: "parse-progress"; progress: ParseProgress }
+  | { type: "fetch-progress"; progress: FetchProgress }
+  | { type: "stats-progress"; progress: StatsProgress }
+  /**
+   * Server actions can only be called from the main thread, so the worker
+   * asks it to look up a batch of video IDs on its behalf
+   */
+  | { type: "lookup"; requestId: number; videoIds: string[] }
+  | { type: "complete"; result: PipelineResult }
+  | { type: "error"; message: string }
+  | { type: "cancelled" };